@@ -0,0 +1,108 @@
+import { rename, rm, stat } from "node:fs/promises";
+import { JsonlFile, readJsonlFile } from "./jsonl-file.js";
+import type { CapacitiesEndpoint } from "./rate-limiter.js";
+
+export const AUDIT_OUTCOMES = ["success", "error"] as const;
+
+export type AuditOutcome = (typeof AUDIT_OUTCOMES)[number];
+
+export interface AuditRecord {
+  timestamp: string;
+  tool: string | null;
+  endpoint: CapacitiesEndpoint;
+  method: "GET" | "POST";
+  spaceId: string | null;
+  attempt: number;
+  request: unknown;
+  outcome: AuditOutcome;
+  status: number | null;
+  latencyMs: number;
+  errorCode: string | null;
+}
+
+export interface AuditLogOptions {
+  maxBytes: number;
+  maxFiles: number;
+}
+
+const REDACTED_TEXT_FIELDS = new Set(["mdText", "descriptionOverwrite"]);
+const SECRET_FIELD_PATTERN = /token|secret|password|authorization/i;
+
+export class AuditLog {
+  readonly filePath: string;
+  private readonly maxBytes: number;
+  private readonly maxFiles: number;
+  private readonly file: JsonlFile<AuditRecord>;
+
+  constructor(filePath: string, options: AuditLogOptions) {
+    this.filePath = filePath;
+    this.maxBytes = options.maxBytes;
+    this.maxFiles = options.maxFiles;
+    this.file = new JsonlFile(filePath, "audit log");
+  }
+
+  append(record: AuditRecord): Promise<void> {
+    return this.file.append(record, {
+      beforeAppend: (lineBytes) => this.rotateIfNeeded(lineBytes)
+    });
+  }
+
+  async list(): Promise<AuditRecord[]> {
+    const records: AuditRecord[] = [];
+    for (let index = this.maxFiles; index >= 0; index -= 1) {
+      records.push(...(await readJsonlFile<AuditRecord>(this.getFilePath(index), "audit log")));
+    }
+    return records;
+  }
+
+  private async rotateIfNeeded(incomingBytes: number): Promise<void> {
+    let size: number;
+    try {
+      size = (await stat(this.filePath)).size;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return;
+      }
+      throw error;
+    }
+    if (size === 0 || size + incomingBytes <= this.maxBytes) {
+      return;
+    }
+
+    await rm(this.getFilePath(this.maxFiles), { force: true });
+    for (let index = this.maxFiles - 1; index >= 0; index -= 1) {
+      try {
+        await rename(this.getFilePath(index), this.getFilePath(index + 1));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+          throw error;
+        }
+      }
+    }
+  }
+
+  private getFilePath(index: number): string {
+    return index === 0 ? this.filePath : `${this.filePath}.${index}`;
+  }
+}
+
+export function redactRequestBody(body: unknown): unknown {
+  if (Array.isArray(body)) {
+    return body.map((item) => redactRequestBody(item));
+  }
+  if (typeof body !== "object" || body === null) {
+    return body;
+  }
+
+  const redacted: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(body)) {
+    if (SECRET_FIELD_PATTERN.test(key)) {
+      redacted[key] = "[redacted]";
+    } else if (REDACTED_TEXT_FIELDS.has(key) && typeof value === "string") {
+      redacted[key] = `[redacted: ${value.length} chars]`;
+    } else {
+      redacted[key] = redactRequestBody(value);
+    }
+  }
+  return redacted;
+}
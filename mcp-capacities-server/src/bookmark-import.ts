@@ -0,0 +1,293 @@
+import { extname } from "node:path";
+import { createValidationError } from "./errors.js";
+
+export const BOOKMARK_FORMATS = ["netscape", "opml", "csv"] as const;
+
+export type BookmarkFormat = (typeof BOOKMARK_FORMATS)[number];
+
+export interface ImportedBookmark {
+  url: string;
+  title?: string;
+  description?: string;
+  tags: string[];
+  folders: string[];
+}
+
+const NETSCAPE_TOKEN_PATTERN = /<(\/?)(dl|h3|a|dd)\b([^>]*)>/gi;
+const OPML_OUTLINE_PATTERN = /<(\/?)outline\b([^>]*?)(\/?)>/gi;
+const ATTRIBUTE_PATTERN = /([a-z_:][-a-z0-9_:.]*)\s*=\s*("([^"]*)"|'([^']*)'|([^\s"'>]+))/gi;
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  ndash: "\u2013",
+  mdash: "\u2014",
+  hellip: "\u2026",
+  lsquo: "\u2018",
+  rsquo: "\u2019",
+  ldquo: "\u201c",
+  rdquo: "\u201d"
+};
+const CSV_URL_COLUMNS = ["url", "href", "link", "uri"];
+const CSV_TITLE_COLUMNS = ["title", "name"];
+const CSV_DESCRIPTION_COLUMNS = ["description", "excerpt", "note", "notes"];
+const CSV_TAG_COLUMNS = ["tags", "tag", "labels"];
+const CSV_FOLDER_COLUMNS = ["folder", "collection", "path"];
+
+export function detectBookmarkFormat(content: string, filePath?: string): BookmarkFormat {
+  const extension = filePath ? extname(filePath).toLowerCase() : "";
+  if (extension === ".html" || extension === ".htm") {
+    return "netscape";
+  }
+  if (extension === ".opml") {
+    return "opml";
+  }
+  if (extension === ".csv") {
+    return "csv";
+  }
+
+  const head = content.slice(0, 2048).toLowerCase();
+  if (head.includes("netscape-bookmark") || /<dl\b/.test(head)) {
+    return "netscape";
+  }
+  if (head.includes("<opml")) {
+    return "opml";
+  }
+  return "csv";
+}
+
+export function parseBookmarks(content: string, format: BookmarkFormat): ImportedBookmark[] {
+  switch (format) {
+    case "netscape":
+      return parseNetscapeBookmarks(content);
+    case "opml":
+      return parseOpmlBookmarks(content);
+    case "csv":
+      return parseCsvBookmarks(content);
+  }
+}
+
+export function parseNetscapeBookmarks(html: string): ImportedBookmark[] {
+  const bookmarks: ImportedBookmark[] = [];
+  const folderStack: Array<string | null> = [];
+  let pendingFolder: string | null = null;
+  let lastBookmark: ImportedBookmark | undefined;
+
+  for (const match of html.matchAll(NETSCAPE_TOKEN_PATTERN)) {
+    const closing = match[1] === "/";
+    const tag = match[2].toLowerCase();
+    const end = (match.index ?? 0) + match[0].length;
+
+    if (tag === "dl") {
+      if (closing) {
+        folderStack.pop();
+      } else {
+        folderStack.push(pendingFolder);
+        pendingFolder = null;
+      }
+      lastBookmark = undefined;
+      continue;
+    }
+    if (closing) {
+      continue;
+    }
+
+    if (tag === "h3") {
+      const attributes = parseAttributes(match[3]);
+      const isRootFolder =
+        "personal_toolbar_folder" in attributes || "unfiled_bookmarks_folder" in attributes;
+      pendingFolder = isRootFolder
+        ? null
+        : decodeEntities(readTextUntil(html, end, /<\/h3/gi)).trim() || null;
+      lastBookmark = undefined;
+    } else if (tag === "a") {
+      const attributes = parseAttributes(match[3]);
+      const href = attributes.href?.trim();
+      if (!href) {
+        lastBookmark = undefined;
+        continue;
+      }
+      lastBookmark = {
+        url: href,
+        title: trimToUndefined(decodeEntities(readTextUntil(html, end, /<\/a/gi))),
+        tags: splitTagList(attributes.tags),
+        folders: folderStack.filter((folder): folder is string => folder !== null)
+      };
+      bookmarks.push(lastBookmark);
+    } else if (tag === "dd" && lastBookmark) {
+      lastBookmark.description = trimToUndefined(
+        decodeEntities(readTextUntil(html, end, /</g))
+      );
+      lastBookmark = undefined;
+    }
+  }
+
+  return bookmarks;
+}
+
+export function parseOpmlBookmarks(xml: string): ImportedBookmark[] {
+  const bookmarks: ImportedBookmark[] = [];
+  const folderStack: Array<string | null> = [];
+
+  for (const match of xml.matchAll(OPML_OUTLINE_PATTERN)) {
+    if (match[1] === "/") {
+      folderStack.pop();
+      continue;
+    }
+
+    const attributes = parseAttributes(match[2]);
+    const url = (attributes.htmlurl ?? attributes.url ?? attributes.xmlurl)?.trim();
+    const text = trimToUndefined(attributes.title ?? attributes.text);
+    const selfClosing = match[3] === "/";
+
+    if (url) {
+      bookmarks.push({
+        url,
+        title: text,
+        description: trimToUndefined(attributes.description),
+        tags: splitTagList(attributes.category),
+        folders: folderStack.filter((folder): folder is string => folder !== null)
+      });
+    }
+    if (!selfClosing) {
+      folderStack.push(url ? null : (text ?? null));
+    }
+  }
+
+  return bookmarks;
+}
+
+export function parseCsvBookmarks(csv: string): ImportedBookmark[] {
+  const rows = parseCsvRows(csv);
+  if (!rows.length) {
+    return [];
+  }
+
+  const header = rows[0].map((cell) => cell.trim().toLowerCase());
+  const urlColumn = findColumn(header, CSV_URL_COLUMNS);
+  if (urlColumn < 0) {
+    throw createValidationError(
+      `CSV header must include a URL column (${CSV_URL_COLUMNS.join(", ")}). Found ${header.length} column(s) without one.`
+    );
+  }
+  const titleColumn = findColumn(header, CSV_TITLE_COLUMNS);
+  const descriptionColumn = findColumn(header, CSV_DESCRIPTION_COLUMNS);
+  const tagColumn = findColumn(header, CSV_TAG_COLUMNS);
+  const folderColumn = findColumn(header, CSV_FOLDER_COLUMNS);
+
+  const bookmarks: ImportedBookmark[] = [];
+  for (const row of rows.slice(1)) {
+    const url = row[urlColumn]?.trim();
+    if (!url) {
+      continue;
+    }
+    bookmarks.push({
+      url,
+      title: trimToUndefined(row[titleColumn]),
+      description: trimToUndefined(row[descriptionColumn]),
+      tags: splitTagList(row[tagColumn]),
+      folders: (row[folderColumn] ?? "")
+        .split("/")
+        .map((folder) => folder.trim())
+        .filter(Boolean)
+    });
+  }
+  return bookmarks;
+}
+
+function parseCsvRows(csv: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  const text = csv.charCodeAt(0) === 0xfeff ? csv.slice(1) : csv;
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[index + 1] === "\n") {
+        index += 1;
+      }
+      row.push(cell);
+      if (row.some((value) => value.trim())) {
+        rows.push(row);
+      }
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  row.push(cell);
+  if (row.some((value) => value.trim())) {
+    rows.push(row);
+  }
+  return rows;
+}
+
+function findColumn(header: string[], candidates: string[]): number {
+  return header.findIndex((column) => candidates.includes(column));
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(ATTRIBUTE_PATTERN)) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[3] ?? match[4] ?? match[5] ?? "");
+  }
+  return attributes;
+}
+
+function readTextUntil(source: string, start: number, terminator: RegExp): string {
+  terminator.lastIndex = start;
+  const match = terminator.exec(source);
+  return source.slice(start, match ? match.index : undefined);
+}
+
+function splitTagList(value: string | undefined): string[] {
+  if (!value) {
+    return [];
+  }
+  return value
+    .split(/[,;|]/)
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+}
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    const normalized = code.toLowerCase();
+    if (normalized.startsWith("#")) {
+      const codePoint = normalized.startsWith("#x")
+        ? Number.parseInt(normalized.slice(2), 16)
+        : Number.parseInt(normalized.slice(1), 10);
+      return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+    }
+    return NAMED_ENTITIES[normalized] ?? entity;
+  });
+}
+
+function trimToUndefined(value: string | undefined): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : undefined;
+}
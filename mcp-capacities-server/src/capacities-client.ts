@@ -1,11 +1,22 @@
-import { resolveSpaceId } from "./config.js";
+import type { AuditLog, AuditRecord } from "./audit-log.js";
+import { redactRequestBody } from "./audit-log.js";
+import type { CaptureLog, CaptureRecord } from "./capture-log.js";
+import { summarizeMdText } from "./capture-log.js";
+import { isUuid, resolveSpaceId } from "./config.js";
 import {
   createApiError,
+  createConfigError,
   createHttpError,
   createValidationError,
   normalizeCapacitiesError
 } from "./errors.js";
 import type { CapacitiesConfig } from "./config.js";
+import type { CapacitiesEndpoint, RateLimitStatus } from "./rate-limiter.js";
+import { TokenBucketRateLimiter } from "./rate-limiter.js";
+import { getActiveRequestTrace } from "./request-trace.js";
+import type { CacheLookup } from "./response-cache.js";
+import { TtlResponseCache } from "./response-cache.js";
+import { computeRetryDelayMs, isRetryableError } from "./retry.js";
 
 export interface CapacitiesSpace {
   id: string;
@@ -52,82 +63,365 @@ export interface SaveToDailyNoteRequest {
   noTimeStamp?: boolean;
 }
 
+export interface WriteOptions {
+  dryRun?: boolean;
+}
+
+export interface CapacitiesRequestPreview {
+  method: "GET" | "POST";
+  url: string;
+  headers: Record<string, string>;
+  body: unknown;
+  bodyBytes: number;
+}
+
+export type CapacitiesWriteResult =
+  | { persisted: true; response: Record<string, unknown> }
+  | { persisted: false; dryRun: true; request: CapacitiesRequestPreview };
+
+export interface CapacitiesApiClientOptions {
+  sleep?: (ms: number) => Promise<void>;
+  random?: () => number;
+  rateLimiter?: TokenBucketRateLimiter;
+  cache?: TtlResponseCache;
+  captureLog?: CaptureLog;
+  auditLog?: AuditLog;
+}
+
+export interface CacheOptions {
+  refresh?: boolean;
+}
+
+export interface LookupOptions extends CacheOptions {
+  cache?: boolean;
+}
+
+interface BuiltRequest {
+  url: URL;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+interface RequestJsonOptions {
+  method: "GET" | "POST";
+  path: CapacitiesEndpoint;
+  query?: Record<string, string | undefined>;
+  body?: unknown;
+  retrySafe: boolean;
+}
+
+const REDACTED_TOKEN = "Bearer <redacted>";
+
 export class CapacitiesApiClient {
   private readonly fetchImpl: typeof fetch;
   private readonly config: CapacitiesConfig;
+  private readonly sleep: (ms: number) => Promise<void>;
+  private readonly random: () => number;
+  private readonly rateLimiter: TokenBucketRateLimiter;
+  private readonly cache: TtlResponseCache;
+  private readonly captureLog?: CaptureLog;
+  private readonly auditLog?: AuditLog;
 
-  constructor(config: CapacitiesConfig, fetchImpl: typeof fetch = fetch) {
+  constructor(
+    config: CapacitiesConfig,
+    fetchImpl: typeof fetch = fetch,
+    options: CapacitiesApiClientOptions = {}
+  ) {
     this.config = config;
     this.fetchImpl = fetchImpl;
+    this.sleep = options.sleep ?? defaultSleep;
+    this.random = options.random ?? Math.random;
+    this.rateLimiter = options.rateLimiter ?? new TokenBucketRateLimiter(config.rateLimits);
+    this.cache = options.cache ?? new TtlResponseCache(config.cacheTtlMs);
+    this.captureLog = options.captureLog;
+    this.auditLog = options.auditLog;
   }
 
-  async getSpaces(): Promise<CapacitiesSpacesResponse> {
-    return this.requestJson<CapacitiesSpacesResponse>({ method: "GET", path: "/spaces" });
+  getRateLimitQueueDepth(endpoint?: CapacitiesEndpoint): number {
+    return this.rateLimiter.getQueueDepth(endpoint);
   }
 
-  async getSpaceInfo(spaceId?: string): Promise<CapacitiesSpaceInfoResponse> {
-    const resolvedSpaceId = resolveSpaceId(spaceId, this.config);
-    return this.requestJson<CapacitiesSpaceInfoResponse>({
-      method: "GET",
-      path: "/space-info",
-      query: { spaceid: resolvedSpaceId }
-    });
+  isDryRun(options: WriteOptions = {}): boolean {
+    return options.dryRun ?? this.config.dryRun;
+  }
+
+  getRateLimitStatus(): RateLimitStatus[] {
+    return this.rateLimiter.getStatus();
+  }
+
+  invalidateCache(spaceId?: string): number {
+    if (spaceId === undefined) {
+      return this.cache.invalidate();
+    }
+    return (
+      this.cache.invalidate(`space-info:${spaceId}`) + this.cache.invalidate(`lookup:${spaceId}:`)
+    );
+  }
+
+  async getSpaces(options: CacheOptions = {}): Promise<CapacitiesSpacesResponse> {
+    return this.cached(
+      "spaces",
+      () =>
+        this.requestJson<CapacitiesSpacesResponse>({
+          method: "GET",
+          path: "/spaces",
+          retrySafe: true
+        }),
+      options
+    );
+  }
+
+  async resolveSpaceId(spaceIdOrTitle?: string): Promise<string> {
+    const candidate = spaceIdOrTitle?.trim();
+    if (!candidate || isUuid(candidate)) {
+      return resolveSpaceId(candidate, this.config);
+    }
+
+    const { spaces } = await this.getSpaces();
+    return findSpaceIdByTitle(candidate, spaces);
+  }
+
+  async getSpaceInfo(
+    spaceId?: string,
+    options: CacheOptions = {}
+  ): Promise<CapacitiesSpaceInfoResponse> {
+    const resolvedSpaceId = await this.resolveSpaceId(spaceId);
+    return this.cached(
+      `space-info:${resolvedSpaceId}`,
+      () =>
+        this.requestJson<CapacitiesSpaceInfoResponse>({
+          method: "GET",
+          path: "/space-info",
+          query: { spaceid: resolvedSpaceId },
+          retrySafe: true
+        }),
+      options
+    );
   }
 
-  async lookup(searchTerm: string, spaceId?: string): Promise<CapacitiesLookupResponse> {
+  async lookup(
+    searchTerm: string,
+    spaceId?: string,
+    options: LookupOptions = {}
+  ): Promise<CapacitiesLookupResponse> {
     const trimmedSearchTerm = searchTerm.trim();
     if (!trimmedSearchTerm) {
       throw createValidationError("lookup searchTerm must be a non-empty string.");
     }
 
-    const resolvedSpaceId = resolveSpaceId(spaceId, this.config);
+    const resolvedSpaceId = await this.resolveSpaceId(spaceId);
+    const load = () =>
+      this.requestJson<CapacitiesLookupResponse>({
+        method: "POST",
+        path: "/lookup",
+        body: {
+          searchTerm: trimmedSearchTerm,
+          spaceId: resolvedSpaceId
+        },
+        retrySafe: true
+      });
 
-    return this.requestJson<CapacitiesLookupResponse>({
-      method: "POST",
-      path: "/lookup",
-      body: {
-        searchTerm: trimmedSearchTerm,
-        spaceId: resolvedSpaceId
-      }
-    });
+    if (!options.cache) {
+      return load();
+    }
+    return this.cached(`lookup:${resolvedSpaceId}:${trimmedSearchTerm}`, load, options);
   }
 
-  async saveWeblink(payload: SaveWeblinkRequest): Promise<Record<string, unknown>> {
-    const resolvedSpaceId = resolveSpaceId(payload.spaceId, this.config);
-    return this.requestJson<Record<string, unknown>>({
+  async saveWeblink(
+    payload: SaveWeblinkRequest,
+    options: WriteOptions = {}
+  ): Promise<CapacitiesWriteResult> {
+    const resolvedSpaceId = await this.resolveSpaceId(payload.spaceId);
+    const request: RequestJsonOptions = {
       method: "POST",
       path: "/save-weblink",
       body: {
         ...payload,
         spaceId: resolvedSpaceId
-      }
+      },
+      retrySafe: false
+    };
+    if (this.isDryRun(options)) {
+      return { persisted: false, dryRun: true, request: this.previewRequest(request) };
+    }
+    this.assertWritable(request.path);
+
+    const response = await this.requestJson<Record<string, unknown>>(request);
+    this.invalidateCache(resolvedSpaceId);
+
+    await this.recordCapture({
+      timestamp: new Date().toISOString(),
+      kind: "weblink",
+      spaceId: resolvedSpaceId,
+      summary: {
+        url: payload.url,
+        title:
+          payload.titleOverwrite ??
+          (typeof response.title === "string" ? response.title : undefined),
+        tags: payload.tags,
+        ...summarizeMdText(payload.mdText)
+      },
+      response
     });
+    return { persisted: true, response };
   }
 
-  async saveToDailyNote(payload: SaveToDailyNoteRequest): Promise<Record<string, unknown>> {
-    const resolvedSpaceId = resolveSpaceId(payload.spaceId, this.config);
-    return this.requestJson<Record<string, unknown>>({
+  async saveToDailyNote(
+    payload: SaveToDailyNoteRequest,
+    options: WriteOptions = {}
+  ): Promise<CapacitiesWriteResult> {
+    const resolvedSpaceId = await this.resolveSpaceId(payload.spaceId);
+    const request: RequestJsonOptions = {
       method: "POST",
       path: "/save-to-daily-note",
       body: {
         ...payload,
         spaceId: resolvedSpaceId
-      }
+      },
+      retrySafe: false
+    };
+    if (this.isDryRun(options)) {
+      return { persisted: false, dryRun: true, request: this.previewRequest(request) };
+    }
+    this.assertWritable(request.path);
+
+    const response = await this.requestJson<Record<string, unknown>>(request);
+    this.invalidateCache(resolvedSpaceId);
+
+    await this.recordCapture({
+      timestamp: new Date().toISOString(),
+      kind: "daily_note",
+      spaceId: resolvedSpaceId,
+      summary: {
+        origin: payload.origin,
+        ...summarizeMdText(payload.mdText)
+      },
+      response
     });
+    return { persisted: true, response };
   }
 
-  private async requestJson<T>({
-    method,
-    path,
-    query,
-    body
-  }: {
-    method: "GET" | "POST";
-    path: string;
-    query?: Record<string, string | undefined>;
-    body?: unknown;
-  }): Promise<T> {
-    const url = new URL(path, this.config.baseUrl);
+  private async auditedRequestJsonOnce<T>(
+    options: RequestJsonOptions,
+    attempt: number
+  ): Promise<T> {
+    if (!this.auditLog) {
+      return (await this.requestJsonOnce<T>(options)).body;
+    }
+
+    const startedAt = Date.now();
+    const audit = (outcome: Pick<AuditRecord, "outcome" | "status" | "errorCode">) =>
+      this.recordAudit({
+        timestamp: new Date(startedAt).toISOString(),
+        tool: getActiveRequestTrace()?.toolName ?? null,
+        endpoint: options.path,
+        method: options.method,
+        spaceId: getRequestSpaceId(options),
+        attempt,
+        request: redactRequestBody(options.body ?? options.query ?? null),
+        ...outcome,
+        latencyMs: Date.now() - startedAt
+      });
+
+    try {
+      const { body, status } = await this.requestJsonOnce<T>(options);
+      await audit({ outcome: "success", status, errorCode: null });
+      return body;
+    } catch (error) {
+      const normalizedError = normalizeCapacitiesError(error);
+      await audit({
+        outcome: "error",
+        status: normalizedError.status ?? null,
+        errorCode: normalizedError.code
+      });
+      throw normalizedError;
+    }
+  }
+
+  private async recordAudit(record: AuditRecord): Promise<void> {
+    try {
+      await this.auditLog?.append(record);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`mcp-capacities-server: request was not recorded in the audit log. ${message}`);
+    }
+  }
+
+  private async recordCapture(record: CaptureRecord): Promise<void> {
+    if (!this.captureLog) {
+      return;
+    }
+    try {
+      await this.captureLog.append(record);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`mcp-capacities-server: capture was saved but not recorded locally. ${message}`);
+    }
+  }
+
+  private async cached<T>(key: string, load: () => Promise<T>, options: CacheOptions): Promise<T> {
+    const lookup: CacheLookup<T> = await this.cache.getOrLoad(key, load, options);
+    getActiveRequestTrace()?.cache.push({
+      key,
+      status: lookup.status,
+      ageMs: lookup.ageMs
+    });
+    return lookup.value;
+  }
+
+  private async requestJson<T>(options: RequestJsonOptions): Promise<T> {
+    const policy = this.config.retry;
+    const retriesAllowed = options.retrySafe || policy.retryMutations;
+
+    for (let attempt = 1; ; attempt += 1) {
+      try {
+        const rateLimitDelayMs = await this.rateLimiter.acquire(options.path);
+        getActiveRequestTrace()?.requests.push({
+          endpoint: options.path,
+          attempt,
+          rateLimitDelayMs
+        });
+        return await this.auditedRequestJsonOnce<T>(options, attempt);
+      } catch (error) {
+        const normalizedError = normalizeCapacitiesError(error);
+        if (
+          !retriesAllowed ||
+          attempt >= policy.maxAttempts ||
+          !isRetryableError(normalizedError, policy)
+        ) {
+          throw normalizedError;
+        }
+
+        const delayMs = computeRetryDelayMs(attempt, normalizedError, policy, this.random);
+        if (delayMs === undefined) {
+          throw normalizedError;
+        }
+        await this.sleep(delayMs);
+      }
+    }
+  }
+
+  private assertWritable(path: CapacitiesEndpoint): void {
+    if (this.config.toolAccess.readOnly) {
+      throw createConfigError(
+        `Read-only mode is enabled, so ${path} is not called. Unset CAPACITIES_READ_ONLY (or "readOnly" in the config file) to allow writes.`
+      );
+    }
+  }
+
+  private previewRequest(options: RequestJsonOptions): CapacitiesRequestPreview {
+    const { url, headers, body } = this.buildRequest(options);
+    return {
+      method: options.method,
+      url: url.toString(),
+      headers: { ...headers, Authorization: REDACTED_TOKEN },
+      body: body === undefined ? null : (JSON.parse(body) as unknown),
+      bodyBytes: body === undefined ? 0 : Buffer.byteLength(body)
+    };
+  }
+
+  private buildRequest({ method, path, query, body }: RequestJsonOptions): BuiltRequest {
+    const url = new URL(`${this.config.baseUrl}${path}`);
     if (query) {
       for (const [key, value] of Object.entries(query)) {
         if (value !== undefined) {
@@ -136,15 +430,33 @@ export class CapacitiesApiClient {
       }
     }
 
+    let serializedBody: string | undefined;
     try {
-      const response = await this.fetchImpl(url, {
-        method,
-        headers: {
-          Authorization: `Bearer ${this.config.apiToken}`,
-          ...(body ? { "Content-Type": "application/json" } : {})
-        },
-        body: body ? JSON.stringify(body) : undefined
-      });
+      serializedBody = body ? JSON.stringify(body) : undefined;
+    } catch (error) {
+      throw createValidationError(
+        `Request body for ${method} ${url.pathname} is not serializable as JSON: ${String(error)}`
+      );
+    }
+
+    return {
+      url,
+      headers: {
+        Authorization: `Bearer ${this.config.apiToken}`,
+        ...(body ? { "Content-Type": "application/json" } : {})
+      },
+      body: serializedBody
+    };
+  }
+
+  private async requestJsonOnce<T>(
+    options: RequestJsonOptions
+  ): Promise<{ body: T; status: number }> {
+    const { method } = options;
+    const { url, headers, body } = this.buildRequest(options);
+
+    try {
+      const response = await this.fetchImpl(url, { method, headers, body });
 
       if (!response.ok) {
         throw await createHttpError(response);
@@ -163,7 +475,7 @@ export class CapacitiesApiClient {
       }
 
       try {
-        return JSON.parse(rawBody) as T;
+        return { body: JSON.parse(rawBody) as T, status: response.status };
       } catch {
         throw createApiError(
           `Capacities API returned invalid JSON for ${method} ${url.pathname}.`,
@@ -177,3 +489,41 @@ export class CapacitiesApiClient {
     }
   }
 }
+
+function getRequestSpaceId({ query, body }: RequestJsonOptions): string | null {
+  if (query?.spaceid) {
+    return query.spaceid;
+  }
+  if (typeof body === "object" && body !== null) {
+    const spaceId = (body as Record<string, unknown>).spaceId;
+    return typeof spaceId === "string" ? spaceId : null;
+  }
+  return null;
+}
+
+function defaultSleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function findSpaceIdByTitle(title: string, spaces: CapacitiesSpace[]): string {
+  const normalizedTitle = title.toLowerCase();
+  const matches = spaces.filter((space) => space.title.trim().toLowerCase() === normalizedTitle);
+
+  if (matches.length === 1) {
+    return matches[0].id;
+  }
+
+  if (matches.length > 1) {
+    const candidates = matches.map((space) => `"${space.title}" (${space.id})`).join(", ");
+    throw createValidationError(
+      `Space title "${title}" is ambiguous and matches ${matches.length} spaces: ${candidates}. Use the space UUID instead.`
+    );
+  }
+
+  const available = spaces.length
+    ? spaces.map((space) => `"${space.title}"`).join(", ")
+    : "none";
+  throw createValidationError(
+    `No space titled "${title}" is accessible with this token. Available spaces: ${available}.`
+  );
+}
@@ -0,0 +1,56 @@
+import { JsonlFile } from "./jsonl-file.js";
+
+export type CaptureKind = "weblink" | "daily_note";
+
+export interface CaptureSummary {
+  url?: string;
+  title?: string;
+  tags?: string[];
+  origin?: string;
+  mdTextLength: number;
+  mdTextPreview?: string;
+}
+
+export interface CaptureRecord {
+  timestamp: string;
+  kind: CaptureKind;
+  spaceId: string;
+  summary: CaptureSummary;
+  response: Record<string, unknown>;
+}
+
+const MD_TEXT_PREVIEW_LENGTH = 200;
+
+export class CaptureLog {
+  readonly filePath: string;
+  private readonly file: JsonlFile<CaptureRecord>;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    this.file = new JsonlFile(filePath, "capture log");
+  }
+
+  append(record: CaptureRecord): Promise<void> {
+    return this.file.append(record);
+  }
+
+  list(): Promise<CaptureRecord[]> {
+    return this.file.read();
+  }
+}
+
+export function summarizeMdText(mdText: string | undefined): Pick<
+  CaptureSummary,
+  "mdTextLength" | "mdTextPreview"
+> {
+  if (!mdText) {
+    return { mdTextLength: 0 };
+  }
+  return {
+    mdTextLength: mdText.length,
+    mdTextPreview:
+      mdText.length > MD_TEXT_PREVIEW_LENGTH
+        ? `${mdText.slice(0, MD_TEXT_PREVIEW_LENGTH)}…`
+        : mdText
+  };
+}
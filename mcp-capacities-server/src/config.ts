@@ -1,8 +1,66 @@
+import { readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { join, resolve } from "node:path";
+import type { DateContext, WeekStart } from "./date.js";
+import { getHostTimeZone, normalizeTimeZone } from "./date.js";
+import type { CapacitiesErrorCode } from "./errors.js";
 import { createConfigError, createValidationError } from "./errors.js";
+import type { CapacitiesEndpoint, RateLimit, RateLimitConfig } from "./rate-limiter.js";
+import { CAPACITIES_ENDPOINTS, DEFAULT_RATE_LIMITS } from "./rate-limiter.js";
+import type { CapacitiesRetryPolicy } from "./retry.js";
+import { DEFAULT_RETRY_POLICY, RETRYABLE_ERROR_CODES } from "./retry.js";
+import type { ToolAccessConfig } from "./tool-access.js";
+import type { DuplicatePolicy } from "./weblink-ledger.js";
+import { DUPLICATE_POLICIES } from "./weblink-ledger.js";
 
-export const CAPACITIES_API_BASE_URL = "https://api.capacities.io";
+export const DEFAULT_API_BASE_URL = "https://api.capacities.io";
+export const CAPACITIES_API_BASE_URL_ENV = "CAPACITIES_API_BASE_URL";
 export const CAPACITIES_API_TOKEN_ENV = "CAPACITIES_API_TOKEN";
 export const CAPACITIES_SPACE_ID_ENV = "CAPACITIES_SPACE_ID";
+export const CAPACITIES_RETRY_MAX_ATTEMPTS_ENV = "CAPACITIES_RETRY_MAX_ATTEMPTS";
+export const CAPACITIES_RETRY_BASE_DELAY_MS_ENV = "CAPACITIES_RETRY_BASE_DELAY_MS";
+export const CAPACITIES_RETRY_MAX_DELAY_MS_ENV = "CAPACITIES_RETRY_MAX_DELAY_MS";
+export const CAPACITIES_RETRY_JITTER_ENV = "CAPACITIES_RETRY_JITTER";
+export const CAPACITIES_RETRY_STATUSES_ENV = "CAPACITIES_RETRY_STATUSES";
+export const CAPACITIES_RETRY_ERROR_CODES_ENV = "CAPACITIES_RETRY_ERROR_CODES";
+export const CAPACITIES_RETRY_MUTATIONS_ENV = "CAPACITIES_RETRY_MUTATIONS";
+
+export const CAPACITIES_TIMEZONE_ENV = "CAPACITIES_TIMEZONE";
+export const CAPACITIES_WEEK_START_ENV = "CAPACITIES_WEEK_START";
+export const CAPACITIES_DATA_DIR_ENV = "CAPACITIES_DATA_DIR";
+export const CAPACITIES_TASK_LEDGER_ENV = "CAPACITIES_TASK_LEDGER";
+export const CAPACITIES_CAPTURE_LOG_ENV = "CAPACITIES_CAPTURE_LOG";
+export const CAPACITIES_IMPORT_ROOT_ENV = "CAPACITIES_IMPORT_ROOT";
+export const CAPACITIES_AUDIT_LOG_ENV = "CAPACITIES_AUDIT_LOG";
+export const CAPACITIES_AUDIT_LOG_MAX_BYTES_ENV = "CAPACITIES_AUDIT_LOG_MAX_BYTES";
+export const CAPACITIES_AUDIT_LOG_MAX_FILES_ENV = "CAPACITIES_AUDIT_LOG_MAX_FILES";
+export const DEFAULT_AUDIT_LOG_MAX_BYTES = 5 * 1024 * 1024;
+export const DEFAULT_AUDIT_LOG_MAX_FILES = 5;
+export const CAPACITIES_DRY_RUN_ENV = "CAPACITIES_DRY_RUN";
+export const CAPACITIES_DUPLICATE_POLICY_ENV = "CAPACITIES_DUPLICATE_POLICY";
+export const CAPACITIES_CONFIG_FILE_ENV = "CAPACITIES_CONFIG_FILE";
+export const CAPACITIES_READ_ONLY_ENV = "CAPACITIES_READ_ONLY";
+export const CAPACITIES_TOOLS_ALLOW_ENV = "CAPACITIES_TOOLS_ALLOW";
+export const CAPACITIES_TOOLS_DENY_ENV = "CAPACITIES_TOOLS_DENY";
+export const DEFAULT_DATA_DIR_NAME = ".mcp-capacities-server";
+export const CAPACITIES_MCP_TRANSPORT_ENV = "CAPACITIES_MCP_TRANSPORT";
+export const CAPACITIES_MCP_HTTP_HOST_ENV = "CAPACITIES_MCP_HTTP_HOST";
+export const CAPACITIES_MCP_HTTP_PORT_ENV = "CAPACITIES_MCP_HTTP_PORT";
+export const CAPACITIES_MCP_HTTP_AUTH_TOKEN_ENV = "CAPACITIES_MCP_HTTP_AUTH_TOKEN";
+export const DEFAULT_HTTP_HOST = "127.0.0.1";
+export const DEFAULT_HTTP_PORT = 3000;
+export const CAPACITIES_CACHE_TTL_MS_ENV = "CAPACITIES_CACHE_TTL_MS";
+export const DEFAULT_CACHE_TTL_MS = 300_000;
+
+export const CAPACITIES_RATE_LIMIT_ENVS: Record<CapacitiesEndpoint, string> = {
+  "/spaces": "CAPACITIES_RATE_LIMIT_SPACES",
+  "/space-info": "CAPACITIES_RATE_LIMIT_SPACE_INFO",
+  "/lookup": "CAPACITIES_RATE_LIMIT_LOOKUP",
+  "/save-weblink": "CAPACITIES_RATE_LIMIT_SAVE_WEBLINK",
+  "/save-to-daily-note": "CAPACITIES_RATE_LIMIT_SAVE_TO_DAILY_NOTE"
+};
+
+const RATE_LIMIT_PATTERN = /^(\d+)\s*\/\s*(\d+)$/;
 
 const UUID_PATTERN =
   /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
@@ -13,8 +71,46 @@ export interface CapacitiesConfig {
   baseUrl: string;
   apiToken: string;
   defaultSpaceId?: string;
+  retry: CapacitiesRetryPolicy;
+  rateLimits: RateLimitConfig;
+  cacheTtlMs: number;
+  dataDir: string;
+  taskLedgerEnabled: boolean;
+  captureLogEnabled: boolean;
+  auditLogEnabled: boolean;
+  auditLogMaxBytes: number;
+  auditLogMaxFiles: number;
+  importRoot?: string;
+  dryRun: boolean;
+  duplicatePolicy: DuplicatePolicy;
+  toolAccess: ToolAccessConfig;
+  timeZone: string;
+  weekStart: WeekStart;
+}
+
+interface ConfigFile {
+  readOnly?: boolean;
+  tools?: {
+    allow?: string[];
+    deny?: string[];
+  };
 }
 
+export type TransportMode = "stdio" | "http";
+
+export interface HttpTransportConfig {
+  host: string;
+  port: number;
+  authToken: string;
+}
+
+export interface TransportConfig {
+  mode: TransportMode;
+  http?: HttpTransportConfig;
+}
+
+export type ResolvedDateContext = Required<Pick<DateContext, "timeZone" | "weekStart">>;
+
 export function isUuid(value: string): boolean {
   return UUID_PATTERN.test(value);
 }
@@ -30,9 +126,62 @@ export function loadCapacitiesConfig(env: EnvSource): CapacitiesConfig {
   }
 
   return {
-    baseUrl: CAPACITIES_API_BASE_URL,
+    baseUrl: loadBaseUrl(env),
     apiToken,
-    defaultSpaceId: defaultSpaceIdRaw
+    defaultSpaceId: defaultSpaceIdRaw,
+    retry: loadRetryPolicy(env),
+    rateLimits: loadRateLimits(env),
+    cacheTtlMs: getIntegerEnv(env, CAPACITIES_CACHE_TTL_MS_ENV, 0) ?? DEFAULT_CACHE_TTL_MS,
+    dataDir:
+      getOptionalTrimmedEnv(env, CAPACITIES_DATA_DIR_ENV) ?? join(homedir(), DEFAULT_DATA_DIR_NAME),
+    taskLedgerEnabled: getBooleanEnv(env, CAPACITIES_TASK_LEDGER_ENV) ?? false,
+    captureLogEnabled: getBooleanEnv(env, CAPACITIES_CAPTURE_LOG_ENV) ?? true,
+    auditLogEnabled: getBooleanEnv(env, CAPACITIES_AUDIT_LOG_ENV) ?? true,
+    auditLogMaxBytes:
+      getIntegerEnv(env, CAPACITIES_AUDIT_LOG_MAX_BYTES_ENV, 1024) ?? DEFAULT_AUDIT_LOG_MAX_BYTES,
+    auditLogMaxFiles:
+      getIntegerEnv(env, CAPACITIES_AUDIT_LOG_MAX_FILES_ENV, 0) ?? DEFAULT_AUDIT_LOG_MAX_FILES,
+    importRoot: loadImportRoot(env),
+    dryRun: getBooleanEnv(env, CAPACITIES_DRY_RUN_ENV) ?? false,
+    duplicatePolicy: loadDuplicatePolicy(env),
+    toolAccess: loadToolAccess(env),
+    timeZone: loadTimeZone(env),
+    weekStart: loadWeekStart(env)
+  };
+}
+
+export function loadTransportConfig(env: EnvSource, argv: string[]): TransportConfig {
+  const flags = parseCliFlags(argv);
+  const modeRaw = (
+    flags.transport ??
+    getOptionalTrimmedEnv(env, CAPACITIES_MCP_TRANSPORT_ENV) ??
+    "stdio"
+  ).toLowerCase();
+
+  if (modeRaw !== "stdio" && modeRaw !== "http") {
+    throw createValidationError(
+      `Transport must be "stdio" or "http" (--transport or ${CAPACITIES_MCP_TRANSPORT_ENV}). Received: "${modeRaw}".`
+    );
+  }
+  if (modeRaw === "stdio") {
+    return { mode: "stdio" };
+  }
+
+  const portRaw = flags.port || getOptionalTrimmedEnv(env, CAPACITIES_MCP_HTTP_PORT_ENV);
+  const port = portRaw === undefined ? DEFAULT_HTTP_PORT : Number(portRaw);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw createValidationError(
+      `HTTP port (--port or ${CAPACITIES_MCP_HTTP_PORT_ENV}) must be an integer between 0 and 65535. Received: "${portRaw}".`
+    );
+  }
+
+  return {
+    mode: "http",
+    http: {
+      host: flags.host || getOptionalTrimmedEnv(env, CAPACITIES_MCP_HTTP_HOST_ENV) || DEFAULT_HTTP_HOST,
+      port,
+      authToken: getRequiredTrimmedEnv(env, CAPACITIES_MCP_HTTP_AUTH_TOKEN_ENV)
+    }
   };
 }
 
@@ -55,6 +204,333 @@ export function resolveSpaceId(
   return candidate;
 }
 
+export function resolveDateContext(
+  config: Pick<CapacitiesConfig, "timeZone" | "weekStart">,
+  timeZoneOverride?: string
+): ResolvedDateContext {
+  const override = timeZoneOverride?.trim();
+  return {
+    timeZone: override ? normalizeTimeZone(override) : config.timeZone,
+    weekStart: config.weekStart
+  };
+}
+
+function parseCliFlags(argv: string[]): Record<string, string | undefined> {
+  const flags: Record<string, string | undefined> = {};
+
+  for (let index = 0; index < argv.length; index += 1) {
+    const arg = argv[index];
+    if (!arg.startsWith("--")) {
+      continue;
+    }
+
+    const [name, inlineValue] = arg.slice(2).split("=", 2);
+    if (name === "http") {
+      flags.transport = "http";
+      continue;
+    }
+    if (name === "stdio") {
+      flags.transport = "stdio";
+      continue;
+    }
+    if (inlineValue !== undefined) {
+      flags[name] = inlineValue.trim();
+      continue;
+    }
+
+    const next = argv[index + 1];
+    if (next !== undefined && !next.startsWith("--")) {
+      flags[name] = next.trim();
+      index += 1;
+    }
+  }
+
+  return flags;
+}
+
+function loadBaseUrl(env: EnvSource): string {
+  const value = getOptionalTrimmedEnv(env, CAPACITIES_API_BASE_URL_ENV);
+  if (value === undefined) {
+    return DEFAULT_API_BASE_URL;
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(value);
+  } catch {
+    throw createConfigError(
+      `${CAPACITIES_API_BASE_URL_ENV} must be an absolute http(s) URL. Received: "${value}".`
+    );
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    throw createConfigError(
+      `${CAPACITIES_API_BASE_URL_ENV} must use http or https. Received: "${value}".`
+    );
+  }
+  if (parsed.search || parsed.hash || parsed.username || parsed.password) {
+    throw createConfigError(
+      `${CAPACITIES_API_BASE_URL_ENV} must not contain credentials, a query or a fragment. Received: "${value}".`
+    );
+  }
+  return `${parsed.origin}${parsed.pathname.replace(/\/+$/, "")}`;
+}
+
+function loadImportRoot(env: EnvSource): string | undefined {
+  const value = getOptionalTrimmedEnv(env, CAPACITIES_IMPORT_ROOT_ENV);
+  if (value === undefined) {
+    return undefined;
+  }
+  return resolvePath(value);
+}
+
+function loadToolAccess(env: EnvSource): ToolAccessConfig {
+  const file = loadConfigFile(env);
+  const allow = getListEnv(env, CAPACITIES_TOOLS_ALLOW_ENV) ?? file.tools?.allow;
+
+  return {
+    readOnly: getBooleanEnv(env, CAPACITIES_READ_ONLY_ENV) ?? file.readOnly ?? false,
+    ...(allow ? { allow } : {}),
+    deny: getListEnv(env, CAPACITIES_TOOLS_DENY_ENV) ?? file.tools?.deny ?? []
+  };
+}
+
+function loadConfigFile(env: EnvSource): ConfigFile {
+  const value = getOptionalTrimmedEnv(env, CAPACITIES_CONFIG_FILE_ENV);
+  if (value === undefined) {
+    return {};
+  }
+
+  const filePath = resolvePath(value);
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(filePath, "utf8"));
+  } catch (error) {
+    throw createConfigError(
+      `${CAPACITIES_CONFIG_FILE_ENV} (${filePath}) could not be read as JSON: ${String(error)}`
+    );
+  }
+
+  if (!isPlainObject(parsed)) {
+    throw createConfigError(
+      `${CAPACITIES_CONFIG_FILE_ENV} (${filePath}) must contain a JSON object.`
+    );
+  }
+  if (parsed.readOnly !== undefined && typeof parsed.readOnly !== "boolean") {
+    throw createConfigError(`"readOnly" in ${filePath} must be true or false.`);
+  }
+  if (parsed.tools !== undefined && !isPlainObject(parsed.tools)) {
+    throw createConfigError(`"tools" in ${filePath} must be an object with "allow" and/or "deny".`);
+  }
+
+  const tools = parsed.tools;
+  return {
+    readOnly: parsed.readOnly,
+    tools: tools && {
+      allow: getStringList(tools.allow, `"tools.allow" in ${filePath}`),
+      deny: getStringList(tools.deny, `"tools.deny" in ${filePath}`)
+    }
+  };
+}
+
+function resolvePath(value: string): string {
+  return resolve(value.startsWith("~/") ? join(homedir(), value.slice(2)) : value);
+}
+
+function loadTimeZone(env: EnvSource): string {
+  const value = getOptionalTrimmedEnv(env, CAPACITIES_TIMEZONE_ENV);
+  if (value === undefined) {
+    return getHostTimeZone();
+  }
+  try {
+    return normalizeTimeZone(value);
+  } catch {
+    throw createValidationError(
+      `${CAPACITIES_TIMEZONE_ENV} must be an IANA time zone such as "Europe/Berlin". Received: "${value}".`
+    );
+  }
+}
+
+function loadDuplicatePolicy(env: EnvSource): DuplicatePolicy {
+  const value = getOptionalTrimmedEnv(env, CAPACITIES_DUPLICATE_POLICY_ENV)?.toLowerCase();
+  if (value === undefined) {
+    return "skip";
+  }
+  const policy = DUPLICATE_POLICIES.find((candidate) => candidate === value);
+  if (!policy) {
+    throw createValidationError(
+      `${CAPACITIES_DUPLICATE_POLICY_ENV} must be one of ${DUPLICATE_POLICIES.join(", ")}. Received: "${value}".`
+    );
+  }
+  return policy;
+}
+
+function loadWeekStart(env: EnvSource): WeekStart {
+  const value = getOptionalTrimmedEnv(env, CAPACITIES_WEEK_START_ENV)?.toLowerCase();
+  if (value === undefined) {
+    return "monday";
+  }
+  if (value !== "monday" && value !== "sunday") {
+    throw createValidationError(
+      `${CAPACITIES_WEEK_START_ENV} must be "monday" or "sunday". Received: "${value}".`
+    );
+  }
+  return value;
+}
+
+function loadRetryPolicy(env: EnvSource): CapacitiesRetryPolicy {
+  const statusesRaw = getOptionalTrimmedEnv(env, CAPACITIES_RETRY_STATUSES_ENV);
+  const errorCodesRaw = getOptionalTrimmedEnv(env, CAPACITIES_RETRY_ERROR_CODES_ENV);
+
+  return {
+    ...DEFAULT_RETRY_POLICY,
+    maxAttempts:
+      getIntegerEnv(env, CAPACITIES_RETRY_MAX_ATTEMPTS_ENV, 1) ?? DEFAULT_RETRY_POLICY.maxAttempts,
+    baseDelayMs:
+      getIntegerEnv(env, CAPACITIES_RETRY_BASE_DELAY_MS_ENV, 0) ?? DEFAULT_RETRY_POLICY.baseDelayMs,
+    maxDelayMs:
+      getIntegerEnv(env, CAPACITIES_RETRY_MAX_DELAY_MS_ENV, 0) ?? DEFAULT_RETRY_POLICY.maxDelayMs,
+    jitterRatio: getRatioEnv(env, CAPACITIES_RETRY_JITTER_ENV) ?? DEFAULT_RETRY_POLICY.jitterRatio,
+    retryableErrorCodes: errorCodesRaw
+      ? parseErrorCodeList(errorCodesRaw)
+      : DEFAULT_RETRY_POLICY.retryableErrorCodes,
+    retryableStatuses: statusesRaw
+      ? parseStatusList(statusesRaw)
+      : DEFAULT_RETRY_POLICY.retryableStatuses,
+    retryMutations:
+      getBooleanEnv(env, CAPACITIES_RETRY_MUTATIONS_ENV) ?? DEFAULT_RETRY_POLICY.retryMutations
+  };
+}
+
+function loadRateLimits(env: EnvSource): RateLimitConfig {
+  const rateLimits = { ...DEFAULT_RATE_LIMITS };
+  for (const endpoint of CAPACITIES_ENDPOINTS) {
+    const name = CAPACITIES_RATE_LIMIT_ENVS[endpoint];
+    const value = getOptionalTrimmedEnv(env, name);
+    if (value !== undefined) {
+      rateLimits[endpoint] = parseRateLimit(name, value);
+    }
+  }
+  return rateLimits;
+}
+
+function parseRateLimit(name: string, value: string): RateLimit | null {
+  if (value.toLowerCase() === "off") {
+    return null;
+  }
+
+  const match = RATE_LIMIT_PATTERN.exec(value);
+  const maxRequests = match ? Number(match[1]) : 0;
+  const windowSeconds = match ? Number(match[2]) : 0;
+  if (maxRequests < 1 || windowSeconds < 1) {
+    throw createValidationError(
+      `${name} must be "<requests>/<seconds>" (for example "120/60") or "off". Received: "${value}".`
+    );
+  }
+
+  return { maxRequests, windowMs: windowSeconds * 1000 };
+}
+
+function parseStatusList(raw: string): number[] {
+  return raw
+    .split(",")
+    .map((part) => part.trim())
+    .filter((part) => part.length > 0)
+    .map((part) => {
+      const status = Number(part);
+      if (!Number.isInteger(status) || status < 400 || status > 599) {
+        throw createValidationError(
+          `${CAPACITIES_RETRY_STATUSES_ENV} must be a comma-separated list of HTTP status codes (400-599). Received: "${part}".`
+        );
+      }
+      return status;
+    });
+}
+
+function parseErrorCodeList(raw: string): CapacitiesErrorCode[] {
+  if (raw.toLowerCase() === "none") {
+    return [];
+  }
+
+  return raw
+    .split(",")
+    .map((part) => part.trim())
+    .filter((part) => part.length > 0)
+    .map((part) => {
+      const code = RETRYABLE_ERROR_CODES.find((candidate) => candidate === part);
+      if (!code) {
+        throw createValidationError(
+          `${CAPACITIES_RETRY_ERROR_CODES_ENV} must be "none" or a comma-separated list of ${RETRYABLE_ERROR_CODES.join(", ")}. Received: "${part}".`
+        );
+      }
+      return code;
+    });
+}
+
+function getIntegerEnv(env: EnvSource, name: string, min: number): number | undefined {
+  const value = getOptionalTrimmedEnv(env, name);
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min) {
+    throw createValidationError(
+      `${name} must be an integer greater than or equal to ${min}. Received: "${value}".`
+    );
+  }
+  return parsed;
+}
+
+function getRatioEnv(env: EnvSource, name: string): number | undefined {
+  const value = getOptionalTrimmedEnv(env, name);
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0 || parsed > 1) {
+    throw createValidationError(`${name} must be a number between 0 and 1. Received: "${value}".`);
+  }
+  return parsed;
+}
+
+function getListEnv(env: EnvSource, name: string): string[] | undefined {
+  const value = getOptionalTrimmedEnv(env, name);
+  if (value === undefined) {
+    return undefined;
+  }
+  return value
+    .split(",")
+    .map((part) => part.trim())
+    .filter((part) => part.length > 0);
+}
+
+function getStringList(value: unknown, label: string): string[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!Array.isArray(value) || value.some((item) => typeof item !== "string")) {
+    throw createConfigError(`${label} must be an array of tool names.`);
+  }
+  return value.map((item: string) => item.trim()).filter((item) => item.length > 0);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function getBooleanEnv(env: EnvSource, name: string): boolean | undefined {
+  const value = getOptionalTrimmedEnv(env, name)?.toLowerCase();
+  if (value === undefined) {
+    return undefined;
+  }
+  if (value === "true" || value === "1") {
+    return true;
+  }
+  if (value === "false" || value === "0") {
+    return false;
+  }
+  throw createValidationError(`${name} must be "true" or "false". Received: "${value}".`);
+}
+
 function getRequiredTrimmedEnv(env: EnvSource, name: string): string {
   const value = getOptionalTrimmedEnv(env, name);
   if (!value) {
@@ -1,45 +1,366 @@
 import { createValidationError } from "./errors.js";
 
 const ABSOLUTE_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const ISO_WEEK_PATTERN = /^(\d{4})-?w(\d{1,2})$/;
+const MONTH_PATTERN = /^(\d{4})-(\d{2})$/;
+const YEAR_PATTERN = /^(\d{4})$/;
+const QUARTER_PATTERNS = [/^q([1-4])(?:\s+(\d{4}))?$/, /^(\d{4})-?q([1-4])$/];
+const RELATIVE_OFFSET_PATTERN = /^(\d+|an?|one)\s+(day|week|month|year)s?\s+ago$/;
+const FUTURE_OFFSET_PATTERN = /^in\s+(\d+|an?|one)\s+(day|week|month|year)s?$/;
+const PERIOD_PATTERN = /^(this|last|next)\s+(week|month|quarter|year)$/;
+const WEEKDAY_PATTERN =
+  /^(?:(this|last|next)\s+)?(sunday|monday|tuesday|wednesday|thursday|friday|saturday)$/;
+const RANGE_SEPARATOR_PATTERN = /\s*(?:\.\.|\s+to\s+|\s+until\s+)\s*/;
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+const DAY_MS = 86_400_000;
 
-export function normalizeDateInput(input: string, now: Date = new Date()): string {
-  const normalizedInput = input.trim();
-  const lower = normalizedInput.toLowerCase();
+const SUPPORTED_FORMS =
+  "YYYY-MM-DD, today, yesterday, tomorrow, 'N days ago', 'in N weeks', 'last friday', " +
+  "'this week', 'last month', 'Q3 2026', '2026-W41', '2026-10', '2026' or '<start> to <end>'";
 
-  if (lower === "yesterday") {
-    const date = new Date(now);
-    date.setDate(date.getDate() - 1);
-    return toIsoLocalDate(date);
+export type DateExpression =
+  | { kind: "day"; date: string }
+  | { kind: "range"; dateFrom: string; dateTo: string };
+
+export interface DateFilterInputs {
+  date?: string;
+  dateFrom?: string;
+  dateTo?: string;
+}
+
+export type WeekStart = "monday" | "sunday";
+
+export interface DateContext {
+  now?: Date;
+  timeZone?: string;
+  weekStart?: WeekStart;
+}
+
+interface CivilDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+export function normalizeDateInput(input: string, context: DateContext = {}): string {
+  const expression = parseDateExpression(input, context);
+  if (expression.kind === "range") {
+    throw createValidationError(
+      `Date "${input}" covers ${expression.dateFrom} to ${expression.dateTo}. Use a single day here.`
+    );
+  }
+  return expression.date;
+}
+
+export function parseDateExpression(input: string, context: DateContext = {}): DateExpression {
+  const normalizedInput = input.trim().toLowerCase().replace(/\s+/g, " ");
+  if (!normalizedInput) {
+    throw createValidationError(`Invalid date "${input}". Expected ${SUPPORTED_FORMS}.`);
   }
 
-  const match = ABSOLUTE_DATE_PATTERN.exec(normalizedInput);
-  if (!match) {
+  const [startInput, endInput, ...rest] = normalizedInput.split(RANGE_SEPARATOR_PATTERN);
+  if (endInput !== undefined) {
+    if (rest.length > 0 || !startInput || !endInput) {
+      throw createValidationError(`Invalid date range "${input}". Use "<start> to <end>".`);
+    }
+    const start = parseSingleExpression(startInput, input, context);
+    const end = parseSingleExpression(endInput, input, context);
+    const dateFrom = start.kind === "day" ? start.date : start.dateFrom;
+    const dateTo = end.kind === "day" ? end.date : end.dateTo;
+    if (dateFrom > dateTo) {
+      throw createValidationError(`Invalid date range "${input}". The start is after the end.`);
+    }
+    return { kind: "range", dateFrom, dateTo };
+  }
+
+  return parseSingleExpression(normalizedInput, input, context);
+}
+
+export function resolveDateFilters(
+  input: DateFilterInputs,
+  context: DateContext = {}
+): DateFilterInputs {
+  const date = input.date ? parseDateExpression(input.date, context) : undefined;
+  const dateFrom = input.dateFrom ? parseDateExpression(input.dateFrom, context) : undefined;
+  const dateTo = input.dateTo ? parseDateExpression(input.dateTo, context) : undefined;
+
+  if (date?.kind === "range") {
+    if (dateFrom || dateTo) {
+      throw createValidationError("Use either date or dateFrom/dateTo, not both.");
+    }
+    return { dateFrom: date.dateFrom, dateTo: date.dateTo };
+  }
+
+  return {
+    date: date?.date,
+    dateFrom: dateFrom ? (dateFrom.kind === "day" ? dateFrom.date : dateFrom.dateFrom) : undefined,
+    dateTo: dateTo ? (dateTo.kind === "day" ? dateTo.date : dateTo.dateTo) : undefined
+  };
+}
+
+export function toIsoLocalDate(date: Date, timeZone?: string): string {
+  return formatCivilDate(toCivilDate(date, timeZone));
+}
+
+export function getHostTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+export function normalizeTimeZone(timeZone: string): string {
+  const trimmed = timeZone.trim();
+  try {
+    return new Intl.DateTimeFormat("en-US", { timeZone: trimmed }).resolvedOptions().timeZone;
+  } catch {
     throw createValidationError(
-      `Invalid date "${input}". Expected YYYY-MM-DD or relative value "yesterday".`
+      `Invalid time zone "${timeZone}". Use an IANA zone name such as "Europe/Berlin" or "America/Los_Angeles".`
+    );
+  }
+}
+
+function parseSingleExpression(
+  expression: string,
+  input: string,
+  context: DateContext
+): DateExpression {
+  const today = toCivilDate(context.now ?? new Date(), context.timeZone);
+  const weekStart = context.weekStart ?? "monday";
+
+  if (expression === "today" || expression === "now") {
+    return day(today);
+  }
+  if (expression === "yesterday") {
+    return day(addDays(today, -1));
+  }
+  if (expression === "tomorrow") {
+    return day(addDays(today, 1));
+  }
+
+  const absoluteMatch = ABSOLUTE_DATE_PATTERN.exec(expression);
+  if (absoluteMatch) {
+    return day(parseCalendarDate(absoluteMatch, input));
+  }
+
+  const pastMatch = RELATIVE_OFFSET_PATTERN.exec(expression);
+  if (pastMatch) {
+    return day(offsetDate(today, -parseCount(pastMatch[1]), pastMatch[2]));
+  }
+
+  const futureMatch = FUTURE_OFFSET_PATTERN.exec(expression);
+  if (futureMatch) {
+    return day(offsetDate(today, parseCount(futureMatch[1]), futureMatch[2]));
+  }
+
+  const weekdayMatch = WEEKDAY_PATTERN.exec(expression);
+  if (weekdayMatch) {
+    return day(
+      resolveWeekday(today, WEEKDAYS.indexOf(weekdayMatch[2]), weekdayMatch[1], weekStart)
     );
   }
 
+  const periodMatch = PERIOD_PATTERN.exec(expression);
+  if (periodMatch) {
+    const direction = periodMatch[1] === "last" ? -1 : periodMatch[1] === "next" ? 1 : 0;
+    return resolvePeriod(today, periodMatch[2], direction, weekStart);
+  }
+
+  const weekMatch = ISO_WEEK_PATTERN.exec(expression);
+  if (weekMatch) {
+    return isoWeekRange(Number(weekMatch[1]), Number(weekMatch[2]), input);
+  }
+
+  for (const pattern of QUARTER_PATTERNS) {
+    const quarterMatch = pattern.exec(expression);
+    if (quarterMatch) {
+      const yearFirst = pattern === QUARTER_PATTERNS[1];
+      const quarter = Number(yearFirst ? quarterMatch[2] : quarterMatch[1]);
+      const yearText = yearFirst ? quarterMatch[1] : quarterMatch[2];
+      return quarterRange(yearText ? Number(yearText) : today.year, quarter);
+    }
+  }
+
+  const monthMatch = MONTH_PATTERN.exec(expression);
+  if (monthMatch) {
+    const month = Number(monthMatch[2]);
+    if (month < 1 || month > 12) {
+      throw createValidationError(
+        `Invalid month "${input}". Use YYYY-MM with a month from 01 to 12.`
+      );
+    }
+    return monthRange(Number(monthMatch[1]), month);
+  }
+
+  const yearMatch = YEAR_PATTERN.exec(expression);
+  if (yearMatch) {
+    const year = Number(yearMatch[1]);
+    return range({ year, month: 1, day: 1 }, { year, month: 12, day: 31 });
+  }
+
+  throw createValidationError(`Invalid date "${input}". Expected ${SUPPORTED_FORMS}.`);
+}
+
+function parseCalendarDate(match: RegExpExecArray, input: string): CivilDate {
   const year = Number(match[1]);
   const month = Number(match[2]);
-  const day = Number(match[3]);
-  const parsed = new Date(Date.UTC(year, month - 1, day));
+  const dayOfMonth = Number(match[3]);
+  const parsed = new Date(Date.UTC(year, month - 1, dayOfMonth));
 
   if (
     parsed.getUTCFullYear() !== year ||
     parsed.getUTCMonth() + 1 !== month ||
-    parsed.getUTCDate() !== day
+    parsed.getUTCDate() !== dayOfMonth
   ) {
     throw createValidationError(
       `Invalid date "${input}". Use a real calendar date in YYYY-MM-DD format.`
     );
   }
 
-  return normalizedInput;
+  return { year, month, day: dayOfMonth };
+}
+
+function parseCount(value: string): number {
+  return /^\d+$/.test(value) ? Number(value) : 1;
+}
+
+function offsetDate(date: CivilDate, amount: number, unit: string): CivilDate {
+  if (unit === "day") {
+    return addDays(date, amount);
+  }
+  if (unit === "week") {
+    return addDays(date, amount * 7);
+  }
+  if (unit === "month") {
+    return addMonths(date, amount);
+  }
+  return addMonths(date, amount * 12);
+}
+
+function resolveWeekday(
+  today: CivilDate,
+  weekday: number,
+  modifier: string | undefined,
+  weekStart: WeekStart
+): CivilDate {
+  const todayWeekday = getWeekday(today);
+  if (modifier === "last") {
+    const daysBack = (todayWeekday - weekday + 7) % 7 || 7;
+    return addDays(today, -daysBack);
+  }
+  if (modifier === "next") {
+    const daysForward = (weekday - todayWeekday + 7) % 7 || 7;
+    return addDays(today, daysForward);
+  }
+  const currentWeekStart = startOfWeek(today, weekStart);
+  return addDays(currentWeekStart, (weekday - getWeekday(currentWeekStart) + 7) % 7);
+}
+
+function resolvePeriod(
+  today: CivilDate,
+  unit: string,
+  direction: number,
+  weekStart: WeekStart
+): DateExpression {
+  if (unit === "week") {
+    const start = addDays(startOfWeek(today, weekStart), direction * 7);
+    return range(start, addDays(start, 6));
+  }
+  if (unit === "month") {
+    const target = addMonths({ ...today, day: 1 }, direction);
+    return monthRange(target.year, target.month);
+  }
+  if (unit === "quarter") {
+    const currentQuarterStart = addMonths(
+      { year: today.year, month: Math.floor((today.month - 1) / 3) * 3 + 1, day: 1 },
+      direction * 3
+    );
+    return quarterRange(
+      currentQuarterStart.year,
+      Math.floor((currentQuarterStart.month - 1) / 3) + 1
+    );
+  }
+  const year = today.year + direction;
+  return range({ year, month: 1, day: 1 }, { year, month: 12, day: 31 });
+}
+
+function isoWeekRange(year: number, week: number, input: string): DateExpression {
+  const january4 = { year, month: 1, day: 4 };
+  const week1Start = addDays(january4, -((getWeekday(january4) + 6) % 7));
+  const hasWeek53 =
+    getWeekday({ year, month: 1, day: 1 }) === 4 || getWeekday({ year, month: 12, day: 31 }) === 4;
+  const weeksInYear = hasWeek53 ? 53 : 52;
+
+  if (week < 1 || week > weeksInYear) {
+    throw createValidationError(`Invalid ISO week "${input}". ${year} has weeks 1 to ${weeksInYear}.`);
+  }
+
+  const start = addDays(week1Start, (week - 1) * 7);
+  return range(start, addDays(start, 6));
+}
+
+function quarterRange(year: number, quarter: number): DateExpression {
+  const startMonth = (quarter - 1) * 3 + 1;
+  const end = addDays(addMonths({ year, month: startMonth, day: 1 }, 3), -1);
+  return range({ year, month: startMonth, day: 1 }, end);
+}
+
+function monthRange(year: number, month: number): DateExpression {
+  const end = addDays(addMonths({ year, month, day: 1 }, 1), -1);
+  return range({ year, month, day: 1 }, end);
+}
+
+function startOfWeek(date: CivilDate, weekStart: WeekStart): CivilDate {
+  const firstWeekday = weekStart === "sunday" ? 0 : 1;
+  return addDays(date, -((getWeekday(date) - firstWeekday + 7) % 7));
+}
+
+function toCivilDate(date: Date, timeZone?: string): CivilDate {
+  if (!timeZone) {
+    return { year: date.getFullYear(), month: date.getMonth() + 1, day: date.getDate() };
+  }
+
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "numeric",
+    day: "numeric"
+  }).formatToParts(date);
+  const getPart = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  return { year: getPart("year"), month: getPart("month"), day: getPart("day") };
+}
+
+function addDays(date: CivilDate, days: number): CivilDate {
+  const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day) + days * DAY_MS);
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate()
+  };
+}
+
+function addMonths(date: CivilDate, months: number): CivilDate {
+  const monthIndex = date.year * 12 + (date.month - 1) + months;
+  const year = Math.floor(monthIndex / 12);
+  const month = (monthIndex % 12) + 1;
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return { year, month, day: Math.min(date.day, lastDay) };
+}
+
+function getWeekday(date: CivilDate): number {
+  return new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+}
+
+function formatCivilDate(date: CivilDate): string {
+  const year = String(date.year).padStart(4, "0");
+  const month = String(date.month).padStart(2, "0");
+  const dayOfMonth = String(date.day).padStart(2, "0");
+  return `${year}-${month}-${dayOfMonth}`;
+}
+
+function day(date: CivilDate): DateExpression {
+  return { kind: "day", date: formatCivilDate(date) };
 }
 
-function toIsoLocalDate(date: Date): string {
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, "0");
-  const day = String(date.getDate()).padStart(2, "0");
-  return `${year}-${month}-${day}`;
+function range(start: CivilDate, end: CivilDate): DateExpression {
+  return { kind: "range", dateFrom: formatCivilDate(start), dateTo: formatCivilDate(end) };
 }
@@ -4,23 +4,27 @@ export type CapacitiesErrorCode =
   | "network_error"
   | "api_error"
   | "rate_limit"
-  | "unsupported";
+  | "unsupported"
+  | "storage_error";
 
 export class CapacitiesError extends Error {
   readonly code: CapacitiesErrorCode;
   readonly status?: number;
   readonly actionableMessage: string;
+  readonly retryAfterMs?: number;
 
   constructor(
     message: string,
     {
       code,
       status,
-      actionableMessage
+      actionableMessage,
+      retryAfterMs
     }: {
       code: CapacitiesErrorCode;
       status?: number;
       actionableMessage: string;
+      retryAfterMs?: number;
     }
   ) {
     super(message);
@@ -28,6 +32,7 @@ export class CapacitiesError extends Error {
     this.code = code;
     this.status = status;
     this.actionableMessage = actionableMessage;
+    this.retryAfterMs = retryAfterMs;
   }
 }
 
@@ -54,11 +59,19 @@ export function createUnsupportedError(message: string): CapacitiesError {
   });
 }
 
+export function createStorageError(message: string): CapacitiesError {
+  return new CapacitiesError(message, {
+    code: "storage_error",
+    actionableMessage:
+      "Check that CAPACITIES_DATA_DIR exists, is writable and contains valid JSON files, then retry."
+  });
+}
+
 export function createNetworkError(message: string): CapacitiesError {
   return new CapacitiesError(message, {
     code: "network_error",
     actionableMessage:
-      "Check network connectivity and retry. If this persists, verify api.capacities.io reachability."
+      "Check network connectivity and retry. If this persists, verify that CAPACITIES_API_BASE_URL (default https://api.capacities.io) is reachable."
   });
 }
 
@@ -115,7 +128,8 @@ export async function createHttpError(response: Response): Promise<CapacitiesErr
         code: "rate_limit",
         status,
         actionableMessage:
-          "Back off and retry with lower request frequency. Respect RateLimit headers when present."
+          "Back off and retry with lower request frequency. Respect RateLimit headers when present.",
+        retryAfterMs: parseRetryAfterMs(retryAfter) ?? parseRetryAfterMs(reset)
       }
     );
   }
@@ -145,6 +159,23 @@ export async function createHttpError(response: Response): Promise<CapacitiesErr
   });
 }
 
+function parseRetryAfterMs(headerValue: string | null): number | undefined {
+  const trimmed = headerValue?.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.ceil(Number(trimmed) * 1000);
+  }
+
+  const retryAt = Date.parse(trimmed);
+  if (Number.isNaN(retryAt)) {
+    return undefined;
+  }
+  return Math.max(0, retryAt - Date.now());
+}
+
 export function normalizeCapacitiesError(error: unknown): CapacitiesError {
   if (error instanceof CapacitiesError) {
     return error;
@@ -0,0 +1,122 @@
+import type {
+  CapacitiesLookupResult,
+  CapacitiesSpace,
+  CapacitiesStructureInfo
+} from "../capacities-client.js";
+
+export interface FakeEntity extends CapacitiesLookupResult {
+  spaceId: string;
+  url?: string;
+  description?: string;
+  tags?: string[];
+  mdText?: string;
+}
+
+export interface FakeDailyNoteEntry {
+  spaceId: string;
+  mdText: string;
+  origin: string | null;
+  noTimeStamp: boolean;
+  savedAt: string;
+}
+
+export interface FakeCapacitiesData {
+  spaces: CapacitiesSpace[];
+  structures: Record<string, CapacitiesStructureInfo[]>;
+  entities: FakeEntity[];
+  dailyNotes: FakeDailyNoteEntry[];
+}
+
+export const FAKE_PERSONAL_SPACE_ID = "5b3c4e8a-1f2d-4c6b-9a7e-0d1c2b3a4f5e";
+export const FAKE_WORK_SPACE_ID = "9e8d7c6b-5a4f-4e3d-8c2b-1a0f9e8d7c6b";
+
+const BASE_STRUCTURES: CapacitiesStructureInfo[] = [
+  { id: "RootPage", title: "Page", pluralName: "Pages", labelColor: "gray" },
+  {
+    id: "RootWeblink",
+    title: "Weblink",
+    pluralName: "Weblinks",
+    labelColor: "blue",
+    propertyDefinitions: [
+      { id: "url", name: "URL", type: "url", dataType: "string" },
+      { id: "tags", name: "Tags", type: "entity", dataType: "array" }
+    ]
+  },
+  { id: "RootDailyNote", title: "Daily Note", pluralName: "Daily Notes", labelColor: "orange" },
+  { id: "RootTag", title: "Tag", pluralName: "Tags", labelColor: "green" }
+];
+
+const FIXTURES: FakeCapacitiesData = {
+  spaces: [
+    { id: FAKE_PERSONAL_SPACE_ID, title: "Personal", icon: "🧠" },
+    { id: FAKE_WORK_SPACE_ID, title: "Work", icon: "💼" }
+  ],
+  structures: {
+    [FAKE_PERSONAL_SPACE_ID]: [
+      ...BASE_STRUCTURES,
+      {
+        id: "a1b2c3d4-0000-4000-8000-000000000001",
+        title: "Book",
+        pluralName: "Books",
+        icon: { type: "emoji", val: "📚" },
+        labelColor: "purple",
+        propertyDefinitions: [
+          { id: "author", name: "Author", type: "entity", dataType: "array" },
+          { id: "rating", name: "Rating", type: "number", dataType: "number" }
+        ],
+        collections: [{ id: "a1b2c3d4-0000-4000-8000-0000000000c1", title: "Reading List" }]
+      }
+    ],
+    [FAKE_WORK_SPACE_ID]: BASE_STRUCTURES
+  },
+  entities: [
+    {
+      spaceId: FAKE_PERSONAL_SPACE_ID,
+      id: "e0000000-0000-4000-8000-000000000001",
+      structureId: "RootPage",
+      title: "Project Ideas"
+    },
+    {
+      spaceId: FAKE_PERSONAL_SPACE_ID,
+      id: "e0000000-0000-4000-8000-000000000002",
+      structureId: "RootPage",
+      title: "Weekly Review Template"
+    },
+    {
+      spaceId: FAKE_PERSONAL_SPACE_ID,
+      id: "e0000000-0000-4000-8000-000000000003",
+      structureId: "RootWeblink",
+      title: "Capacities API Docs",
+      url: "https://api.capacities.io/docs"
+    },
+    {
+      spaceId: FAKE_PERSONAL_SPACE_ID,
+      id: "e0000000-0000-4000-8000-000000000004",
+      structureId: "RootTag",
+      title: "reading"
+    },
+    {
+      spaceId: FAKE_PERSONAL_SPACE_ID,
+      id: "e0000000-0000-4000-8000-000000000005",
+      structureId: "a1b2c3d4-0000-4000-8000-000000000001",
+      title: "Thinking, Fast and Slow"
+    },
+    {
+      spaceId: FAKE_WORK_SPACE_ID,
+      id: "e0000000-0000-4000-8000-000000000006",
+      structureId: "RootPage",
+      title: "Project Roadmap"
+    },
+    {
+      spaceId: FAKE_WORK_SPACE_ID,
+      id: "e0000000-0000-4000-8000-000000000007",
+      structureId: "RootPage",
+      title: "Meeting Notes"
+    }
+  ],
+  dailyNotes: []
+};
+
+export function createFakeCapacitiesData(): FakeCapacitiesData {
+  return structuredClone(FIXTURES);
+}
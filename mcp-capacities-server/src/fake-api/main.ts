@@ -0,0 +1,46 @@
+import { createConfigError } from "../errors.js";
+import { FAKE_PERSONAL_SPACE_ID } from "./fixtures.js";
+import { parseFakeFaults, startFakeCapacitiesApi } from "./server.js";
+
+export const FAKE_CAPACITIES_HOST_ENV = "FAKE_CAPACITIES_HOST";
+export const FAKE_CAPACITIES_PORT_ENV = "FAKE_CAPACITIES_PORT";
+export const FAKE_CAPACITIES_TOKEN_ENV = "FAKE_CAPACITIES_TOKEN";
+export const FAKE_CAPACITIES_FAULTS_ENV = "FAKE_CAPACITIES_FAULTS";
+export const DEFAULT_FAKE_CAPACITIES_PORT = 4010;
+
+async function main(): Promise<void> {
+  const portRaw = process.env[FAKE_CAPACITIES_PORT_ENV]?.trim();
+  const port = portRaw ? Number(portRaw) : DEFAULT_FAKE_CAPACITIES_PORT;
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw createConfigError(
+      `${FAKE_CAPACITIES_PORT_ENV} must be an integer between 0 and 65535. Received: "${portRaw}".`
+    );
+  }
+
+  const api = await startFakeCapacitiesApi({
+    host: process.env[FAKE_CAPACITIES_HOST_ENV]?.trim() || "127.0.0.1",
+    port,
+    token: process.env[FAKE_CAPACITIES_TOKEN_ENV]?.trim() || undefined,
+    faults: parseFakeFaults(process.env[FAKE_CAPACITIES_FAULTS_ENV] ?? "")
+  });
+  console.error(`fake Capacities API listening on ${api.url}`);
+  console.error(
+    `Point the MCP server at it with CAPACITIES_API_BASE_URL=${api.url} CAPACITIES_SPACE_ID=${FAKE_PERSONAL_SPACE_ID}`
+  );
+
+  const shutdown = (signal: string) => {
+    console.error(`Received ${signal}, shutting down the fake Capacities API.`);
+    api.close().then(
+      () => process.exit(0),
+      () => process.exit(1)
+    );
+  };
+  process.once("SIGINT", shutdown);
+  process.once("SIGTERM", shutdown);
+}
+
+main().catch((error: unknown) => {
+  const message = error instanceof Error ? error.message : "Unknown startup error.";
+  console.error(`Failed to start the fake Capacities API: ${message}`);
+  process.exitCode = 1;
+});
@@ -0,0 +1,510 @@
+import { randomUUID } from "node:crypto";
+import { createServer } from "node:http";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { createValidationError } from "../errors.js";
+import type { CapacitiesEndpoint } from "../rate-limiter.js";
+import { CAPACITIES_ENDPOINTS } from "../rate-limiter.js";
+import type { FakeCapacitiesData, FakeEntity } from "./fixtures.js";
+import { createFakeCapacitiesData } from "./fixtures.js";
+
+export const FAKE_FAULT_KINDS = ["status", "empty", "invalid-json", "disconnect"] as const;
+
+export type FakeFaultKind = (typeof FAKE_FAULT_KINDS)[number];
+
+export interface FakeFault {
+  kind: FakeFaultKind;
+  endpoint?: CapacitiesEndpoint;
+  status?: number;
+  body?: string;
+  headers?: Record<string, string>;
+  times?: number;
+}
+
+export interface FakeRequestRecord {
+  timestamp: string;
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  body: unknown;
+  fault: FakeFaultKind | null;
+  status: number | null;
+}
+
+export interface FakeCapacitiesApiOptions {
+  host?: string;
+  port?: number;
+  token?: string;
+  faults?: FakeFault[];
+  now?: () => Date;
+}
+
+export interface RunningFakeCapacitiesApi {
+  url: string;
+  data: () => FakeCapacitiesData;
+  requests: () => FakeRequestRecord[];
+  injectFault: (fault: FakeFault) => void;
+  clearFaults: () => void;
+  reset: () => void;
+  close: () => Promise<void>;
+}
+
+interface FakeResponse {
+  status: number;
+  body: unknown;
+}
+
+interface FakeRoute {
+  method: "GET" | "POST";
+  handle: (request: { query: URLSearchParams; body: unknown }) => FakeResponse;
+}
+
+const ADMIN_PREFIX = "/__fake";
+const MAX_BODY_BYTES = 1024 * 1024;
+const FAULT_TOKEN_PATTERN = /^(?:(\/[a-z-]+)=)?([a-z-]+|\d{3})(?:x(\d+))?$/;
+
+export async function startFakeCapacitiesApi(
+  options: FakeCapacitiesApiOptions = {}
+): Promise<RunningFakeCapacitiesApi> {
+  const now = options.now ?? (() => new Date());
+  let data = createFakeCapacitiesData();
+  let faults: FakeFault[] = (options.faults ?? []).map(validateFakeFault);
+  let requests: FakeRequestRecord[] = [];
+
+  const routes: Record<CapacitiesEndpoint, FakeRoute> = {
+    "/spaces": {
+      method: "GET",
+      handle: () => ok({ spaces: data.spaces })
+    },
+    "/space-info": {
+      method: "GET",
+      handle: ({ query }) => {
+        const spaceId = query.get("spaceid");
+        if (!spaceId) {
+          return badRequest("Query parameter spaceid is required.");
+        }
+        const structures = data.structures[spaceId];
+        return structures ? ok({ structures }) : notFound(`Space ${spaceId} not found.`);
+      }
+    },
+    "/lookup": {
+      method: "POST",
+      handle: ({ body }) => {
+        const spaceId = getString(body, "spaceId");
+        const searchTerm = getString(body, "searchTerm")?.trim();
+        if (!spaceId || !searchTerm) {
+          return badRequest("Body must contain spaceId and a non-empty searchTerm.");
+        }
+        if (!data.structures[spaceId]) {
+          return notFound(`Space ${spaceId} not found.`);
+        }
+
+        const term = searchTerm.toLowerCase();
+        const results = data.entities
+          .filter(
+            (entity) => entity.spaceId === spaceId && entity.title.toLowerCase().includes(term)
+          )
+          .map(({ id, structureId, title }) => ({ id, structureId, title }));
+        return ok({ results });
+      }
+    },
+    "/save-weblink": {
+      method: "POST",
+      handle: ({ body }) => {
+        const spaceId = getString(body, "spaceId");
+        const url = getString(body, "url");
+        if (!spaceId || !url) {
+          return badRequest("Body must contain spaceId and url.");
+        }
+        if (!data.structures[spaceId]) {
+          return notFound(`Space ${spaceId} not found.`);
+        }
+
+        let parsedUrl: URL;
+        try {
+          parsedUrl = new URL(url);
+        } catch {
+          return badRequest(`Invalid url: ${url}`);
+        }
+
+        const entity: FakeEntity = {
+          spaceId,
+          id: randomUUID(),
+          structureId: "RootWeblink",
+          title: getString(body, "titleOverwrite") ?? parsedUrl.hostname,
+          url,
+          description: getString(body, "descriptionOverwrite") ?? "",
+          tags: getStringArray(body, "tags"),
+          mdText: getString(body, "mdText")
+        };
+        data.entities.push(entity);
+        return ok({
+          spaceId,
+          id: entity.id,
+          structureId: entity.structureId,
+          title: entity.title,
+          description: entity.description,
+          tags: entity.tags
+        });
+      }
+    },
+    "/save-to-daily-note": {
+      method: "POST",
+      handle: ({ body }) => {
+        const spaceId = getString(body, "spaceId");
+        const mdText = getString(body, "mdText");
+        if (!spaceId || !mdText) {
+          return badRequest("Body must contain spaceId and mdText.");
+        }
+        if (!data.structures[spaceId]) {
+          return notFound(`Space ${spaceId} not found.`);
+        }
+
+        data.dailyNotes.push({
+          spaceId,
+          mdText,
+          origin: getString(body, "origin") ?? null,
+          noTimeStamp: isRecord(body) && body.noTimeStamp === true,
+          savedAt: now().toISOString()
+        });
+        return ok({ success: true });
+      }
+    }
+  };
+
+  const takeFault = (endpoint: CapacitiesEndpoint): FakeFault | undefined => {
+    const index = faults.findIndex((fault) => !fault.endpoint || fault.endpoint === endpoint);
+    if (index === -1) {
+      return undefined;
+    }
+
+    const fault = faults[index];
+    const remaining = (fault.times ?? 1) - 1;
+    if (remaining > 0) {
+      faults[index] = { ...fault, times: remaining };
+    } else {
+      faults.splice(index, 1);
+    }
+    return fault;
+  };
+
+  const handleAdminRequest = async (
+    req: IncomingMessage,
+    res: ServerResponse,
+    path: string
+  ): Promise<void> => {
+    if (path === `${ADMIN_PREFIX}/requests` && req.method === "GET") {
+      sendJson(res, 200, { requests });
+      return;
+    }
+    if (path === `${ADMIN_PREFIX}/data` && req.method === "GET") {
+      sendJson(res, 200, data);
+      return;
+    }
+    if (path === `${ADMIN_PREFIX}/faults` && req.method === "GET") {
+      sendJson(res, 200, { faults });
+      return;
+    }
+    if (path === `${ADMIN_PREFIX}/faults` && req.method === "POST") {
+      const body = await readJsonBody(req);
+      faults.push(...(Array.isArray(body) ? body : [body]).map(validateFakeFault));
+      sendJson(res, 200, { faults });
+      return;
+    }
+    if (path === `${ADMIN_PREFIX}/faults` && req.method === "DELETE") {
+      faults = [];
+      sendJson(res, 200, { faults });
+      return;
+    }
+    if (path === `${ADMIN_PREFIX}/reset` && req.method === "POST") {
+      data = createFakeCapacitiesData();
+      faults = [];
+      requests = [];
+      sendJson(res, 200, { reset: true });
+      return;
+    }
+    sendJson(res, 404, { error: `Unknown fake API admin route ${req.method} ${path}.` });
+  };
+
+  const handleRequest = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const requestUrl = new URL(req.url ?? "/", "http://localhost");
+    const path = requestUrl.pathname;
+    if (path.startsWith(ADMIN_PREFIX)) {
+      await handleAdminRequest(req, res, path);
+      return;
+    }
+
+    const rawBody = await readRawBody(req);
+    const record: FakeRequestRecord = {
+      timestamp: now().toISOString(),
+      method: req.method ?? "UNKNOWN",
+      path,
+      query: Object.fromEntries(requestUrl.searchParams),
+      body: parseJsonOrRaw(rawBody),
+      fault: null,
+      status: null
+    };
+    requests.push(record);
+
+    const endpoint = CAPACITIES_ENDPOINTS.find((candidate) => candidate === path);
+    if (!endpoint) {
+      record.status = 404;
+      sendJson(res, 404, { error: `Unknown endpoint ${path}.` });
+      return;
+    }
+
+    const fault = takeFault(endpoint);
+    if (fault) {
+      record.fault = fault.kind;
+      record.status = sendFault(res, fault);
+      return;
+    }
+
+    if (!isAuthorized(req, options.token)) {
+      record.status = 401;
+      sendJson(res, 401, { error: "Unauthorized. Provide a valid bearer token." });
+      return;
+    }
+
+    const route = routes[endpoint];
+    if (req.method !== route.method) {
+      record.status = 405;
+      res.setHeader("Allow", route.method);
+      sendJson(res, 405, { error: `Method ${req.method ?? "UNKNOWN"} is not allowed.` });
+      return;
+    }
+
+    let body: unknown;
+    if (route.method === "POST") {
+      try {
+        body = JSON.parse(rawBody) as unknown;
+      } catch {
+        record.status = 400;
+        sendJson(res, 400, { error: "Request body is not valid JSON." });
+        return;
+      }
+    }
+
+    const response = route.handle({ query: requestUrl.searchParams, body });
+    record.status = response.status;
+    sendJson(res, response.status, response.body);
+  };
+
+  const httpServer = createServer((req, res) => {
+    handleRequest(req, res).catch((error: unknown) => {
+      const message = error instanceof Error ? error.message : "Unknown error.";
+      if (!res.headersSent) {
+        sendJson(res, 400, { error: message });
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port ?? 0, options.host ?? "127.0.0.1", () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  const address = httpServer.address() as AddressInfo;
+  const host = address.family === "IPv6" ? `[${address.address}]` : address.address;
+
+  return {
+    url: `http://${host}:${address.port}`,
+    data: () => data,
+    requests: () => requests,
+    injectFault: (fault) => {
+      faults.push(validateFakeFault(fault));
+    },
+    clearFaults: () => {
+      faults = [];
+    },
+    reset: () => {
+      data = createFakeCapacitiesData();
+      faults = [];
+      requests = [];
+    },
+    close: async () => {
+      const serverClosed = new Promise<void>((resolve) => httpServer.close(() => resolve()));
+      httpServer.closeAllConnections();
+      await serverClosed;
+    }
+  };
+}
+
+export function parseFakeFaults(spec: string): FakeFault[] {
+  return spec
+    .split(",")
+    .map((token) => token.trim())
+    .filter(Boolean)
+    .map((token) => {
+      const match = FAULT_TOKEN_PATTERN.exec(token);
+      if (!match) {
+        throw createValidationError(
+          `Invalid fault "${token}". Use [endpoint=]fault[xN], for example "/save-weblink=429x2" or "invalid-json".`
+        );
+      }
+
+      const [, endpoint, fault, times] = match;
+      const status = /^\d{3}$/.test(fault) ? Number(fault) : undefined;
+      return validateFakeFault({
+        kind: status === undefined ? fault : "status",
+        ...(endpoint ? { endpoint } : {}),
+        ...(status === undefined ? {} : { status }),
+        ...(times ? { times: Number(times) } : {})
+      });
+    });
+}
+
+function validateFakeFault(input: unknown): FakeFault {
+  if (!isRecord(input)) {
+    throw createValidationError("A fault must be a JSON object.");
+  }
+
+  const { kind, endpoint, status, body, headers, times } = input;
+  if (!FAKE_FAULT_KINDS.includes(kind as FakeFaultKind)) {
+    throw createValidationError(
+      `Unknown fault kind ${JSON.stringify(kind)}. Expected one of: ${FAKE_FAULT_KINDS.join(", ")}.`
+    );
+  }
+  if (endpoint !== undefined && !CAPACITIES_ENDPOINTS.includes(endpoint as CapacitiesEndpoint)) {
+    throw createValidationError(
+      `Unknown fault endpoint ${JSON.stringify(endpoint)}. Expected one of: ${CAPACITIES_ENDPOINTS.join(", ")}.`
+    );
+  }
+  if (kind === "status" && status === undefined) {
+    throw createValidationError('A "status" fault needs a status code.');
+  }
+  if (
+    status !== undefined &&
+    (!Number.isInteger(status) || Number(status) < 100 || Number(status) > 599)
+  ) {
+    throw createValidationError(
+      `Fault status must be an HTTP status code. Received: ${String(status)}.`
+    );
+  }
+  if (body !== undefined && typeof body !== "string") {
+    throw createValidationError("Fault body must be a string.");
+  }
+  if (
+    headers !== undefined &&
+    (!isRecord(headers) || Object.values(headers).some((value) => typeof value !== "string"))
+  ) {
+    throw createValidationError("Fault headers must be an object of string values.");
+  }
+  if (times !== undefined && (!Number.isInteger(times) || Number(times) < 1)) {
+    throw createValidationError(
+      `Fault times must be a positive integer. Received: ${String(times)}.`
+    );
+  }
+
+  return {
+    kind: kind as FakeFaultKind,
+    ...(endpoint === undefined ? {} : { endpoint: endpoint as CapacitiesEndpoint }),
+    ...(status === undefined ? {} : { status: status as number }),
+    ...(body === undefined ? {} : { body }),
+    ...(headers === undefined ? {} : { headers: headers as Record<string, string> }),
+    ...(times === undefined ? {} : { times: times as number })
+  };
+}
+
+function sendFault(res: ServerResponse, fault: FakeFault): number | null {
+  if (fault.kind === "disconnect") {
+    res.socket?.destroy();
+    return null;
+  }
+
+  const status = fault.status ?? 200;
+  const body =
+    fault.kind === "empty"
+      ? ""
+      : fault.kind === "invalid-json"
+        ? '{"results": ['
+        : (fault.body ?? JSON.stringify({ error: `Injected ${status} fault.` }));
+  res.writeHead(status, { "Content-Type": "application/json", ...fault.headers });
+  res.end(body);
+  return status;
+}
+
+function isAuthorized(req: IncomingMessage, expectedToken: string | undefined): boolean {
+  const header = req.headers.authorization;
+  const match = header ? /^Bearer\s+(.+)$/i.exec(header.trim()) : null;
+  if (!match) {
+    return false;
+  }
+  return expectedToken === undefined || match[1] === expectedToken;
+}
+
+async function readRawBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    const buffer = typeof chunk === "string" ? Buffer.from(chunk) : (chunk as Buffer);
+    size += buffer.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error(`Request body exceeds ${MAX_BODY_BYTES} bytes.`);
+    }
+    chunks.push(buffer);
+  }
+
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  try {
+    return JSON.parse(await readRawBody(req)) as unknown;
+  } catch {
+    throw new Error("Request body is not valid JSON.");
+  }
+}
+
+function parseJsonOrRaw(raw: string): unknown {
+  if (!raw) {
+    return null;
+  }
+  try {
+    return JSON.parse(raw) as unknown;
+  } catch {
+    return raw;
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function ok(body: unknown): FakeResponse {
+  return { status: 200, body };
+}
+
+function badRequest(message: string): FakeResponse {
+  return { status: 400, body: { error: message } };
+}
+
+function notFound(message: string): FakeResponse {
+  return { status: 404, body: { error: message } };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function getString(body: unknown, key: string): string | undefined {
+  if (!isRecord(body)) {
+    return undefined;
+  }
+  const value = body[key];
+  return typeof value === "string" && value ? value : undefined;
+}
+
+function getStringArray(body: unknown, key: string): string[] {
+  if (!isRecord(body) || !Array.isArray(body[key])) {
+    return [];
+  }
+  return body[key].filter((item): item is string => typeof item === "string");
+}
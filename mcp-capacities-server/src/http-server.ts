@@ -0,0 +1,228 @@
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import { createServer } from "node:http";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import type { HttpTransportConfig } from "./config.js";
+
+const MCP_PATH = "/mcp";
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const SHUTDOWN_GRACE_MS = 5_000;
+
+interface McpSession {
+  server: McpServer;
+  transport: StreamableHTTPServerTransport;
+}
+
+export interface RunningHttpServer {
+  url: string;
+  sessionCount: () => number;
+  close: () => Promise<void>;
+}
+
+export async function startHttpServer(
+  createMcpServer: () => McpServer,
+  config: HttpTransportConfig
+): Promise<RunningHttpServer> {
+  const sessions = new Map<string, McpSession>();
+  let closing = false;
+
+  const handleRequest = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const requestUrl = new URL(req.url ?? "/", "http://localhost");
+    if (requestUrl.pathname !== MCP_PATH) {
+      sendJsonError(res, 404, `Not found. The MCP endpoint is ${MCP_PATH}.`);
+      return;
+    }
+    if (closing) {
+      sendJsonError(res, 503, "Server is shutting down.");
+      return;
+    }
+    if (!isAuthorized(req, config.authToken)) {
+      res.setHeader("WWW-Authenticate", 'Bearer realm="mcp-capacities-server"');
+      sendJsonError(res, 401, "Missing or invalid bearer token.");
+      return;
+    }
+
+    const sessionId = getSessionIdHeader(req);
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+
+    if (req.method === "POST") {
+      let body: unknown;
+      try {
+        body = await readJsonBody(req);
+      } catch (error) {
+        sendJsonError(res, 400, error instanceof Error ? error.message : "Invalid request body.");
+        return;
+      }
+
+      if (session) {
+        await session.transport.handleRequest(req, res, body);
+        return;
+      }
+      if (sessionId) {
+        sendJsonError(res, 404, "Unknown or expired MCP session. Reinitialize the connection.");
+        return;
+      }
+      if (!isInitializeRequest(body)) {
+        sendJsonError(res, 400, "Missing mcp-session-id header. Send an initialize request first.");
+        return;
+      }
+
+      const newSession = await createSession();
+      try {
+        await newSession.transport.handleRequest(req, res, body);
+      } catch (error) {
+        await closeSession(newSession);
+        throw error;
+      }
+      const newSessionId = newSession.transport.sessionId;
+      if (!newSessionId || !sessions.has(newSessionId)) {
+        await closeSession(newSession);
+      }
+      return;
+    }
+
+    if (req.method === "GET" || req.method === "DELETE") {
+      if (!session) {
+        sendJsonError(
+          res,
+          sessionId ? 404 : 400,
+          sessionId ? "Unknown or expired MCP session." : "Missing mcp-session-id header."
+        );
+        return;
+      }
+      await session.transport.handleRequest(req, res);
+      return;
+    }
+
+    res.setHeader("Allow", "GET, POST, DELETE");
+    sendJsonError(res, 405, `Method ${req.method ?? "UNKNOWN"} is not allowed.`);
+  };
+
+  const createSession = async (): Promise<McpSession> => {
+    const server = createMcpServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (newSessionId) => {
+        sessions.set(newSessionId, { server, transport });
+      }
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        sessions.delete(transport.sessionId);
+      }
+    };
+
+    try {
+      await server.connect(transport);
+    } catch (error) {
+      await closeSession({ server, transport });
+      throw error;
+    }
+    return { server, transport };
+  };
+
+  const httpServer = createServer((req, res) => {
+    handleRequest(req, res).catch((error: unknown) => {
+      const message = error instanceof Error ? error.message : "Unknown error.";
+      console.error(`mcp-capacities-server HTTP request failed: ${message}`);
+      if (!res.headersSent) {
+        sendJsonError(res, 500, "Internal server error.");
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(config.port, config.host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  const address = httpServer.address() as AddressInfo;
+  const host = address.family === "IPv6" ? `[${address.address}]` : address.address;
+
+  return {
+    url: `http://${host}:${address.port}${MCP_PATH}`,
+    sessionCount: () => sessions.size,
+    close: async () => {
+      if (closing) {
+        return;
+      }
+      closing = true;
+
+      const serverClosed = new Promise<void>((resolve) => httpServer.close(() => resolve()));
+      const openSessions = [...sessions.values()];
+      sessions.clear();
+      await Promise.allSettled(openSessions.map((openSession) => openSession.server.close()));
+
+      const forceClose = setTimeout(() => httpServer.closeAllConnections(), SHUTDOWN_GRACE_MS);
+      httpServer.closeIdleConnections();
+      await serverClosed;
+      clearTimeout(forceClose);
+    }
+  };
+}
+
+// Closes a session whose initialize request never completed so its server and transport do not leak.
+async function closeSession(session: McpSession): Promise<void> {
+  await Promise.allSettled([session.server.close(), session.transport.close()]);
+}
+
+function isAuthorized(req: IncomingMessage, expectedToken: string): boolean {
+  const header = req.headers.authorization;
+  const match = header ? /^Bearer\s+(.+)$/i.exec(header.trim()) : null;
+  if (!match) {
+    return false;
+  }
+
+  const provided = Buffer.from(match[1]);
+  const expected = Buffer.from(expectedToken);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+function getSessionIdHeader(req: IncomingMessage): string | undefined {
+  const header = req.headers["mcp-session-id"];
+  return Array.isArray(header) ? header[0] : header;
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    const buffer = typeof chunk === "string" ? Buffer.from(chunk) : (chunk as Buffer);
+    size += buffer.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error(`Request body exceeds ${MAX_BODY_BYTES} bytes.`);
+    }
+    chunks.push(buffer);
+  }
+
+  const raw = Buffer.concat(chunks).toString("utf8");
+  if (!raw.trim()) {
+    throw new Error("Request body must be a JSON-RPC message.");
+  }
+
+  try {
+    return JSON.parse(raw) as unknown;
+  } catch {
+    throw new Error("Request body is not valid JSON.");
+  }
+}
+
+function sendJsonError(res: ServerResponse, status: number, message: string): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(
+    JSON.stringify({
+      jsonrpc: "2.0",
+      error: { code: -32000, message },
+      id: null
+    })
+  );
+}
@@ -0,0 +1,81 @@
+import { createHash } from "node:crypto";
+import { join } from "node:path";
+import { JsonFileStore } from "./json-file-store.js";
+
+export type CheckpointItemStatus = "saved" | "skipped" | "failed";
+
+export interface CheckpointItem {
+  status: CheckpointItemStatus;
+  updatedAt: string;
+  message?: string;
+}
+
+interface ImportCheckpointFile {
+  version: 1;
+  source: string;
+  createdAt: string;
+  updatedAt: string;
+  items: Record<string, CheckpointItem>;
+}
+
+export function getCheckpointPath(dataDir: string, kind: string, sourceKey: string): string {
+  const digest = createHash("sha256").update(sourceKey).digest("hex").slice(0, 16);
+  return join(dataDir, "imports", `${kind}-${digest}.json`);
+}
+
+export class ImportCheckpoint {
+  readonly filePath: string;
+  private readonly source: string;
+  private readonly now: () => Date;
+  private readonly store: JsonFileStore<ImportCheckpointFile>;
+  private state: ImportCheckpointFile | undefined;
+
+  constructor(filePath: string, source: string, now: () => Date = () => new Date()) {
+    this.filePath = filePath;
+    this.source = source;
+    this.now = now;
+    this.store = new JsonFileStore(filePath, {
+      label: "import checkpoint",
+      empty: () => this.createEmptyState(),
+      normalize: (parsed) => {
+        const { createdAt, items } = (parsed ?? {}) as Partial<ImportCheckpointFile>;
+        return {
+          ...this.createEmptyState(),
+          ...(typeof createdAt === "string" ? { createdAt } : {}),
+          items: typeof items === "object" && items !== null ? items : {}
+        };
+      }
+    });
+  }
+
+  async load(): Promise<void> {
+    this.state = await this.store.read();
+  }
+
+  async reset(): Promise<void> {
+    await this.store.remove();
+    this.state = this.createEmptyState();
+  }
+
+  get(key: string): CheckpointItem | undefined {
+    return this.state?.items[key];
+  }
+
+  countByStatus(status: CheckpointItemStatus): number {
+    return Object.values(this.state?.items ?? {}).filter((item) => item.status === status).length;
+  }
+
+  record(key: string, status: CheckpointItemStatus, message?: string): Promise<void> {
+    const state = this.state ?? this.createEmptyState();
+    const timestamp = this.now().toISOString();
+    state.items[key] = { status, updatedAt: timestamp, ...(message ? { message } : {}) };
+    state.updatedAt = timestamp;
+    this.state = state;
+    return this.store.write(state);
+  }
+
+  private createEmptyState(): ImportCheckpointFile {
+    const timestamp = this.now().toISOString();
+    return { version: 1, source: this.source, createdAt: timestamp, updatedAt: timestamp, items: {} };
+  }
+}
@@ -0,0 +1,894 @@
+import { readFile, realpath, stat } from "node:fs/promises";
+import { extname, isAbsolute, relative, resolve, sep } from "node:path";
+import { setTimeout as delay } from "node:timers/promises";
+import * as z from "zod/v4";
+import type { BookmarkFormat, ImportedBookmark } from "./bookmark-import.js";
+import { BOOKMARK_FORMATS, detectBookmarkFormat, parseBookmarks } from "./bookmark-import.js";
+import type { CapacitiesApiClient, CapacitiesRequestPreview } from "./capacities-client.js";
+import type { CapacitiesConfig } from "./config.js";
+import { CAPACITIES_IMPORT_ROOT_ENV } from "./config.js";
+import { createConfigError, createValidationError, normalizeCapacitiesError } from "./errors.js";
+import { getCheckpointPath, ImportCheckpoint } from "./import-checkpoint.js";
+import { splitMarkdown, stripFrontMatter } from "./markdown-chunks.js";
+import {
+  DAILY_NOTE_ORIGINS,
+  MAX_MD_TEXT_LENGTH,
+  MAX_WEBLINK_TAGS,
+  normalizeTags,
+  normalizeWeblinkUrl
+} from "./mutation-tools.js";
+import { summarizeRateLimitDelays, withRequestTrace } from "./request-trace.js";
+import type { ToolRegistrar } from "./tool-access.js";
+import type { WeblinkLedger } from "./weblink-ledger.js";
+import { canonicalizeWeblinkUrl, DUPLICATE_POLICIES } from "./weblink-ledger.js";
+
+const MAX_IMPORT_FILE_BYTES = 10 * 1024 * 1024;
+const MAX_INLINE_ITEMS = 1000;
+const DEFAULT_IMPORT_LIMIT = 100;
+const MAX_TITLE_LENGTH = 500;
+const MAX_DESCRIPTION_LENGTH = 1000;
+const MAX_LISTED_ITEMS = 50;
+const FOLDER_TAG_MODES = ["segments", "path", "none"] as const;
+const MAX_MARKDOWN_FILES = 20;
+const MIN_CHUNK_LENGTH = 1000;
+const MARKDOWN_EXTENSIONS = [".md", ".markdown"];
+const MAX_HEADER_PARTS = 99_999;
+
+type FolderTagMode = (typeof FOLDER_TAG_MODES)[number];
+
+type ImportItemStatus = "saved" | "previewed" | "skipped" | "failed" | "pending";
+
+interface ImportItemResult {
+  index: number;
+  url: string;
+  title: string | null;
+  tags: string[];
+  status: ImportItemStatus;
+  reason?: string;
+  notes?: string[];
+  error?: {
+    code: string;
+    message: string;
+    status: number | null;
+  };
+  request?: CapacitiesRequestPreview;
+}
+
+type MarkdownChunkStatus = "saved" | "previewed" | "failed" | "not_sent";
+
+interface MarkdownChunkResult {
+  file: string;
+  part: number;
+  parts: number;
+  length: number;
+  status: MarkdownChunkStatus;
+  error?: {
+    code: string;
+    message: string;
+    status: number | null;
+  };
+  request?: CapacitiesRequestPreview;
+}
+
+interface MarkdownFile {
+  path: string;
+  relativePath: string;
+  body: string;
+  frontMatterStripped: boolean;
+}
+
+interface PlannedChunk {
+  mdText: string;
+  result: MarkdownChunkResult;
+}
+
+interface ImportSource {
+  label: string;
+  key: string;
+  format: BookmarkFormat | "inline";
+  bookmarks: ImportedBookmark[];
+}
+
+export function registerImportTools(
+  server: ToolRegistrar,
+  dependencies: {
+    client: CapacitiesApiClient;
+    config: CapacitiesConfig;
+    weblinkLedger: WeblinkLedger;
+  }
+): void {
+  const { client, config, weblinkLedger } = dependencies;
+
+  server.registerTool(
+    "import_weblinks",
+    {
+      title: "Import Weblinks",
+      description:
+        "Bulk-save bookmarks as weblinks from a Netscape bookmark HTML, OPML or CSV export (filePath) or an inline list (items). Folder paths become tags, saves are throttled and resumable via a local checkpoint, and progress notifications are sent when the client provides a progress token.",
+      inputSchema: {
+        spaceId: z
+          .string()
+          .trim()
+          .optional()
+          .describe(
+            "Optional space UUID or title (case-insensitive). Falls back to CAPACITIES_SPACE_ID."
+          ),
+        filePath: z
+          .string()
+          .trim()
+          .min(1)
+          .optional()
+          .describe(
+            "Path to a local bookmark export relative to CAPACITIES_IMPORT_ROOT, or an absolute path inside it. Provide either filePath or items."
+          ),
+        format: z
+          .enum(["auto", ...BOOKMARK_FORMATS])
+          .optional()
+          .describe(
+            "File format. 'auto' detects from the extension (.html, .opml, .csv) or content. Default: auto."
+          ),
+        items: z
+          .array(
+            z.object({
+              url: z.string().trim().min(1).max(2048),
+              title: z.string().trim().optional(),
+              description: z.string().trim().optional(),
+              tags: z.array(z.string().trim().max(100)).optional(),
+              folder: z
+                .string()
+                .trim()
+                .optional()
+                .describe("Optional folder path such as 'Reading/Articles'.")
+            })
+          )
+          .min(1)
+          .max(MAX_INLINE_ITEMS)
+          .optional()
+          .describe("Inline bookmarks to import. Provide either filePath or items."),
+        tags: z
+          .array(z.string().trim().max(100))
+          .max(MAX_WEBLINK_TAGS)
+          .optional()
+          .describe("Optional tags added to every imported weblink."),
+        folderTags: z
+          .enum(FOLDER_TAG_MODES)
+          .optional()
+          .describe(
+            "How folder paths map to tags: 'segments' adds one tag per folder, 'path' adds the full path as one tag (e.g. 'Dev/JS'), 'none' ignores folders. Default: segments."
+          ),
+        limit: z
+          .number()
+          .int()
+          .min(1)
+          .max(1000)
+          .optional()
+          .describe(
+            `Maximum weblinks to save in this call. Remaining items stay pending in the checkpoint. Default: ${DEFAULT_IMPORT_LIMIT}.`
+          ),
+        delayMs: z
+          .number()
+          .int()
+          .min(0)
+          .max(60_000)
+          .optional()
+          .describe(
+            "Extra pause between saves on top of the client rate limit for /save-weblink. Default: 0."
+          ),
+        resume: z
+          .boolean()
+          .optional()
+          .describe(
+            "Skip items already saved by a previous run of the same source. Set to false to start over. Default: true."
+          ),
+        duplicatePolicy: z
+          .enum(DUPLICATE_POLICIES)
+          .optional()
+          .describe(
+            "What to do with URLs this server already saved in the space: 'skip', 'warn' (save and report) or 'force'. Defaults to CAPACITIES_DUPLICATE_POLICY."
+          ),
+        dryRun: z
+          .boolean()
+          .optional()
+          .describe(
+            "Build and validate every request without sending it. Defaults to CAPACITIES_DRY_RUN."
+          )
+      }
+    },
+    async (input, extra) =>
+      withRequestTrace("import_weblinks", async (trace) => {
+        try {
+          const spaceId = await client.resolveSpaceId(input.spaceId);
+          const source = await loadImportSource(input, config.importRoot);
+          const folderTags = input.folderTags ?? "segments";
+          const limit = input.limit ?? DEFAULT_IMPORT_LIMIT;
+          const duplicatePolicy = input.duplicatePolicy ?? config.duplicatePolicy;
+          const dryRun = client.isDryRun(input);
+
+          const checkpoint = new ImportCheckpoint(
+            getCheckpointPath(config.dataDir, "weblinks", `${spaceId}\n${source.key}`),
+            source.label
+          );
+          if (input.resume !== false) {
+            await checkpoint.load();
+          } else if (!dryRun) {
+            await checkpoint.reset();
+          }
+
+          const items = prepareImportItems(source.bookmarks, input.tags, folderTags, checkpoint);
+          const queued = items.filter((item) => item.status === "pending").slice(0, limit);
+          const progressToken = extra._meta?.progressToken;
+          let progressEnabled = progressToken !== undefined;
+          let processed = 0;
+          let aborted = false;
+
+          for (const item of queued) {
+            if (processed > 0 && input.delayMs && !dryRun) {
+              await delay(input.delayMs, undefined, { signal: extra.signal }).catch(() => undefined);
+            }
+            if (extra.signal.aborted) {
+              aborted = true;
+              break;
+            }
+
+            const bookmark = source.bookmarks[item.index];
+            const canonicalUrl = canonicalizeWeblinkUrl(item.url);
+            try {
+              const existing =
+                duplicatePolicy === "force"
+                  ? undefined
+                  : await weblinkLedger.findByCanonicalUrl(spaceId, canonicalUrl);
+              if (existing) {
+                item.reason = `Already saved at ${existing.savedAt} (weblink ledger).`;
+              }
+
+              if (existing && duplicatePolicy === "skip") {
+                item.status = "skipped";
+              } else {
+                const result = await client.saveWeblink(
+                  {
+                    spaceId,
+                    url: item.url,
+                    titleOverwrite: item.title ?? undefined,
+                    descriptionOverwrite: bookmark.description?.slice(0, MAX_DESCRIPTION_LENGTH),
+                    tags: item.tags.length ? item.tags : undefined
+                  },
+                  { dryRun }
+                );
+                if (result.persisted) {
+                  item.status = "saved";
+                  await recordImportedWeblink(
+                    weblinkLedger,
+                    spaceId,
+                    item,
+                    canonicalUrl,
+                    result.response
+                  );
+                } else {
+                  item.status = "previewed";
+                  item.request = result.request;
+                }
+              }
+            } catch (error) {
+              const normalizedError = normalizeCapacitiesError(error);
+              item.status = "failed";
+              item.error = {
+                code: normalizedError.code,
+                message: normalizedError.message,
+                status: normalizedError.status ?? null
+              };
+            }
+            if (item.status !== "previewed") {
+              try {
+                await checkpoint.record(item.url, item.status, item.error?.message ?? item.reason);
+              } catch (error) {
+                addItemNote(
+                  item,
+                  `Checkpoint not updated, so a later run may process this item again. ${normalizeCapacitiesError(error).message}`
+                );
+              }
+            }
+
+            processed += 1;
+            if (progressEnabled && progressToken !== undefined) {
+              // Progress is best effort: a failed notification must not discard the report.
+              try {
+                await extra.sendNotification({
+                  method: "notifications/progress",
+                  params: {
+                    progressToken,
+                    progress: processed,
+                    total: queued.length,
+                    message: `${item.status}: ${item.url}`
+                  }
+                });
+              } catch (error) {
+                progressEnabled = false;
+                addItemNote(
+                  item,
+                  `Progress notifications stopped: ${error instanceof Error ? error.message : "unknown error"}.`
+                );
+              }
+            }
+          }
+
+          const summary = {
+            total: items.length,
+            saved: countStatus(items, "saved"),
+            previewed: countStatus(items, "previewed"),
+            skipped: countStatus(items, "skipped"),
+            failed: countStatus(items, "failed"),
+            pending: countStatus(items, "pending")
+          };
+          const markdown = renderImportMarkdown({
+            source,
+            spaceId,
+            summary,
+            items,
+            checkpointPath: checkpoint.filePath,
+            aborted,
+            dryRun
+          });
+
+          return {
+            content: toTextContent(markdown),
+            structuredContent: {
+              tool: "import_weblinks",
+              rateLimit: summarizeRateLimitDelays(trace, client.getRateLimitQueueDepth()),
+              ok: summary.failed === 0,
+              dryRun,
+              persisted: !dryRun,
+              spaceId,
+              source: { label: source.label, format: source.format },
+              summary,
+              aborted,
+              checkpoint: { path: checkpoint.filePath },
+              items
+            }
+          };
+        } catch (error) {
+          return errorResult("import_weblinks", error);
+        }
+      })
+  );
+
+  server.registerTool(
+    "ingest_markdown_files",
+    {
+      title: "Ingest Markdown Files",
+      description:
+        "Append local markdown files from CAPACITIES_IMPORT_ROOT to today's daily note via /save-to-daily-note, in order. Content over the mdText limit is split at heading, then paragraph, then line boundaries.",
+      inputSchema: {
+        spaceId: z
+          .string()
+          .trim()
+          .optional()
+          .describe(
+            "Optional space UUID or title (case-insensitive). Falls back to CAPACITIES_SPACE_ID."
+          ),
+        files: z
+          .array(z.string().trim().min(1))
+          .min(1)
+          .max(MAX_MARKDOWN_FILES)
+          .describe(
+            "Markdown files (.md, .markdown) relative to CAPACITIES_IMPORT_ROOT, or absolute paths inside it. Sent in the given order."
+          ),
+        stripFrontMatter: z
+          .boolean()
+          .optional()
+          .describe("Remove a leading YAML front matter block from each file. Default: true."),
+        sourceHeader: z
+          .boolean()
+          .optional()
+          .describe(
+            "Start each chunk with an italic line naming the source file and part. Default: true."
+          ),
+        origin: z
+          .enum(DAILY_NOTE_ORIGINS)
+          .optional()
+          .describe("Optional origin label sent with every chunk."),
+        noTimeStamp: z
+          .boolean()
+          .optional()
+          .describe(
+            "Omit the Capacities timestamp on the first chunk of each file. Continuation chunks never get one. Default: false."
+          ),
+        maxChunkLength: z
+          .number()
+          .int()
+          .min(MIN_CHUNK_LENGTH)
+          .max(MAX_MD_TEXT_LENGTH)
+          .optional()
+          .describe(`Maximum characters per chunk. Default: ${MAX_MD_TEXT_LENGTH}.`),
+        dryRun: z
+          .boolean()
+          .optional()
+          .describe(
+            "Build and validate every request without sending it. Defaults to CAPACITIES_DRY_RUN."
+          )
+      }
+    },
+    async (input) =>
+      withRequestTrace("ingest_markdown_files", async (trace) => {
+        try {
+          if (!config.importRoot) {
+            throw createConfigError(
+              `Set ${CAPACITIES_IMPORT_ROOT_ENV} to the directory markdown files may be read from.`
+            );
+          }
+
+          const spaceId = await client.resolveSpaceId(input.spaceId);
+          const files = await loadMarkdownFiles(
+            input.files,
+            config.importRoot,
+            input.stripFrontMatter ?? true
+          );
+          const chunks = planMarkdownChunks(
+            files,
+            input.maxChunkLength ?? MAX_MD_TEXT_LENGTH,
+            input.sourceHeader ?? true
+          );
+
+          const dryRun = client.isDryRun(input);
+          let failed = false;
+          for (const chunk of chunks) {
+            if (failed) {
+              break;
+            }
+            try {
+              const result = await client.saveToDailyNote(
+                {
+                  spaceId,
+                  mdText: chunk.mdText,
+                  origin: input.origin,
+                  noTimeStamp: chunk.result.part > 1 || input.noTimeStamp || undefined
+                },
+                { dryRun }
+              );
+              if (result.persisted) {
+                chunk.result.status = "saved";
+              } else {
+                chunk.result.status = "previewed";
+                chunk.result.request = result.request;
+              }
+            } catch (error) {
+              const normalizedError = normalizeCapacitiesError(error);
+              chunk.result.status = "failed";
+              chunk.result.error = {
+                code: normalizedError.code,
+                message: normalizedError.message,
+                status: normalizedError.status ?? null
+              };
+              failed = true;
+            }
+          }
+
+          const results = chunks.map((chunk) => chunk.result);
+          const summary = {
+            files: files.length,
+            chunks: results.length,
+            saved: results.filter((result) => result.status === "saved").length,
+            previewed: results.filter((result) => result.status === "previewed").length,
+            failed: results.filter((result) => result.status === "failed").length,
+            notSent: results.filter((result) => result.status === "not_sent").length
+          };
+
+          return {
+            content: toTextContent(
+              renderMarkdownIngestMarkdown(spaceId, files, summary, results, dryRun)
+            ),
+            structuredContent: {
+              tool: "ingest_markdown_files",
+              rateLimit: summarizeRateLimitDelays(trace, client.getRateLimitQueueDepth()),
+              ok: !failed,
+              dryRun,
+              persisted: !dryRun,
+              spaceId,
+              summary,
+              files: files.map((file) => ({
+                file: file.relativePath,
+                characters: file.body.length,
+                frontMatterStripped: file.frontMatterStripped
+              })),
+              chunks: results
+            },
+            ...(failed ? { isError: true } : {})
+          };
+        } catch (error) {
+          return errorResult("ingest_markdown_files", error);
+        }
+      })
+  );
+}
+
+async function loadImportSource(
+  input: {
+    filePath?: string;
+    format?: "auto" | BookmarkFormat;
+    items?: Array<{
+      url: string;
+      title?: string;
+      description?: string;
+      tags?: string[];
+      folder?: string;
+    }>;
+  },
+  importRoot: string | undefined
+): Promise<ImportSource> {
+  const filePath = trimToUndefined(input.filePath);
+  if ((filePath === undefined) === (input.items === undefined)) {
+    throw createValidationError("Provide exactly one of filePath or items.");
+  }
+
+  if (input.items) {
+    return {
+      label: `inline list (${input.items.length} items)`,
+      key: `inline\n${input.items.map((item) => item.url.trim()).join("\n")}`,
+      format: "inline",
+      bookmarks: input.items.map((item) => ({
+        url: item.url,
+        title: trimToUndefined(item.title),
+        description: trimToUndefined(item.description),
+        tags: item.tags ?? [],
+        folders: (item.folder ?? "")
+          .split("/")
+          .map((folder) => folder.trim())
+          .filter(Boolean)
+      }))
+    };
+  }
+
+  if (!importRoot) {
+    throw createConfigError(
+      `Set ${CAPACITIES_IMPORT_ROOT_ENV} to the directory bookmark exports may be read from, or pass items instead of filePath.`
+    );
+  }
+  const resolvedPath = await resolveAllowedPath(importRoot, filePath as string);
+  const content = await readImportFile(resolvedPath);
+  const format =
+    !input.format || input.format === "auto"
+      ? detectBookmarkFormat(content, resolvedPath)
+      : input.format;
+  const bookmarks = parseBookmarks(content, format);
+  if (!bookmarks.length) {
+    throw createValidationError(`No bookmarks found in ${resolvedPath} (parsed as ${format}).`);
+  }
+
+  return { label: resolvedPath, key: `file\n${resolvedPath}`, format, bookmarks };
+}
+
+async function resolveAllowedPath(importRoot: string, filePath: string): Promise<string> {
+  let rootPath: string;
+  try {
+    rootPath = await realpath(importRoot);
+  } catch (error) {
+    throw createConfigError(
+      `${CAPACITIES_IMPORT_ROOT_ENV} (${importRoot}) is not accessible: ${String(error)}`
+    );
+  }
+
+  let resolvedPath: string;
+  try {
+    resolvedPath = await realpath(resolve(rootPath, filePath));
+  } catch (error) {
+    throw createValidationError(`Cannot read ${filePath}: ${String(error)}`);
+  }
+
+  const relativePath = relative(rootPath, resolvedPath);
+  if (relativePath === ".." || relativePath.startsWith(`..${sep}`) || isAbsolute(relativePath)) {
+    throw createValidationError(
+      `${filePath} is outside ${CAPACITIES_IMPORT_ROOT_ENV}. Only files under ${rootPath} can be read.`
+    );
+  }
+  return resolvedPath;
+}
+
+async function readImportFile(filePath: string): Promise<string> {
+  let fileStat: Awaited<ReturnType<typeof stat>>;
+  try {
+    fileStat = await stat(filePath);
+  } catch (error) {
+    throw createValidationError(`Cannot read ${filePath}: ${String(error)}`);
+  }
+
+  if (!fileStat.isFile()) {
+    throw createValidationError(`${filePath} is not a regular file.`);
+  }
+  if (fileStat.size > MAX_IMPORT_FILE_BYTES) {
+    throw createValidationError(
+      `${filePath} is larger than ${MAX_IMPORT_FILE_BYTES} bytes. Split the export into smaller files.`
+    );
+  }
+
+  try {
+    return await readFile(filePath, "utf8");
+  } catch (error) {
+    throw createValidationError(`Cannot read ${filePath}: ${String(error)}`);
+  }
+}
+
+async function loadMarkdownFiles(
+  filePaths: string[],
+  importRoot: string,
+  shouldStripFrontMatter: boolean
+): Promise<MarkdownFile[]> {
+  const rootPath = await realpath(importRoot).catch(() => importRoot);
+  const files: MarkdownFile[] = [];
+
+  for (const filePath of filePaths) {
+    const resolvedPath = await resolveAllowedPath(importRoot, filePath);
+    if (!MARKDOWN_EXTENSIONS.includes(extname(resolvedPath).toLowerCase())) {
+      throw createValidationError(
+        `${filePath} is not a markdown file. Supported extensions: ${MARKDOWN_EXTENSIONS.join(", ")}.`
+      );
+    }
+
+    const content = await readImportFile(resolvedPath);
+    const { body, stripped } = shouldStripFrontMatter
+      ? stripFrontMatter(content)
+      : { body: content, stripped: false };
+    files.push({
+      path: resolvedPath,
+      relativePath: relative(rootPath, resolvedPath),
+      body,
+      frontMatterStripped: stripped
+    });
+  }
+
+  return files;
+}
+
+function planMarkdownChunks(
+  files: MarkdownFile[],
+  maxChunkLength: number,
+  sourceHeader: boolean
+): PlannedChunk[] {
+  const planned: PlannedChunk[] = [];
+
+  for (const file of files) {
+    const headerReserve = sourceHeader
+      ? renderSourceHeader(file.relativePath, MAX_HEADER_PARTS, MAX_HEADER_PARTS).length
+      : 0;
+    if (headerReserve >= maxChunkLength / 2) {
+      throw createValidationError(
+        `The source header for ${file.relativePath} leaves too little room. Increase maxChunkLength or set sourceHeader to false.`
+      );
+    }
+
+    const parts = splitMarkdown(file.body, maxChunkLength - headerReserve);
+    parts.forEach((part, index) => {
+      const header = sourceHeader
+        ? renderSourceHeader(file.relativePath, index + 1, parts.length)
+        : "";
+      planned.push({
+        mdText: `${header}${part}`,
+        result: {
+          file: file.relativePath,
+          part: index + 1,
+          parts: parts.length,
+          length: header.length + part.length,
+          status: "not_sent"
+        }
+      });
+    });
+  }
+
+  return planned;
+}
+
+function renderSourceHeader(relativePath: string, part: number, parts: number): string {
+  const partLabel = parts > 1 ? ` (part ${part}/${parts})` : "";
+  return `*Imported from \`${relativePath}\`${partLabel}*\n\n`;
+}
+
+function prepareImportItems(
+  bookmarks: ImportedBookmark[],
+  extraTags: string[] | undefined,
+  folderTags: FolderTagMode,
+  checkpoint: ImportCheckpoint
+): ImportItemResult[] {
+  const seenUrls = new Set<string>();
+
+  return bookmarks.map((bookmark, index) => {
+    const title = trimToUndefined(bookmark.title)?.slice(0, MAX_TITLE_LENGTH) ?? null;
+    const item: ImportItemResult = {
+      index,
+      url: bookmark.url,
+      title,
+      tags: [],
+      status: "pending"
+    };
+
+    try {
+      item.url = normalizeWeblinkUrl(bookmark.url);
+      item.tags = normalizeTags([
+        ...(extraTags ?? []),
+        ...bookmark.tags,
+        ...getFolderTags(bookmark.folders, folderTags)
+      ]);
+    } catch (error) {
+      item.status = "skipped";
+      item.reason = normalizeCapacitiesError(error).message;
+      return item;
+    }
+
+    const canonicalUrl = canonicalizeWeblinkUrl(item.url);
+    if (seenUrls.has(canonicalUrl)) {
+      item.status = "skipped";
+      item.reason = "Duplicate URL earlier in this import.";
+    } else if (checkpoint.get(item.url)?.status === "saved") {
+      item.status = "skipped";
+      item.reason = "Already imported according to the checkpoint.";
+    }
+    seenUrls.add(canonicalUrl);
+    return item;
+  });
+}
+
+async function recordImportedWeblink(
+  weblinkLedger: WeblinkLedger,
+  spaceId: string,
+  item: ImportItemResult,
+  canonicalUrl: string,
+  response: Record<string, unknown>
+): Promise<void> {
+  try {
+    await weblinkLedger.record({
+      spaceId,
+      url: item.url,
+      canonicalUrl,
+      entityId: typeof response.id === "string" ? response.id : null,
+      title: item.title ?? (typeof response.title === "string" ? response.title : null),
+      idempotencyKey: null,
+      response
+    });
+  } catch (error) {
+    addItemNote(item, `Weblink ledger not updated. ${normalizeCapacitiesError(error).message}`);
+  }
+}
+
+function addItemNote(item: ImportItemResult, note: string): void {
+  item.notes = [...(item.notes ?? []), note];
+}
+
+function getFolderTags(folders: string[], mode: FolderTagMode): string[] {
+  if (mode === "none" || !folders.length) {
+    return [];
+  }
+  return mode === "path" ? [folders.join("/")] : folders;
+}
+
+function countStatus(items: ImportItemResult[], status: ImportItemStatus): number {
+  return items.filter((item) => item.status === status).length;
+}
+
+function renderImportMarkdown(payload: {
+  source: ImportSource;
+  spaceId: string;
+  summary: Record<"total" | "saved" | "previewed" | "skipped" | "failed" | "pending", number>;
+  items: ImportItemResult[];
+  checkpointPath: string;
+  aborted: boolean;
+  dryRun: boolean;
+}): string {
+  const listed = payload.items.filter((item) => item.status !== "pending");
+  const itemLines = listed.length
+    ? listed.slice(0, MAX_LISTED_ITEMS).map((item) => {
+        const detail = [item.error?.message ?? item.reason, ...(item.notes ?? [])]
+          .filter(Boolean)
+          .join(" ");
+        return `- ${item.status}: ${item.url}${detail ? ` - ${detail}` : ""}`;
+      })
+    : ["- No items processed."];
+  if (listed.length > MAX_LISTED_ITEMS) {
+    itemLines.push(`- ...and ${listed.length - MAX_LISTED_ITEMS} more (see structuredContent.items).`);
+  }
+
+  const nextStep = payload.dryRun
+    ? "Dry run: nothing was sent to Capacities and the checkpoint was not updated. Request previews are in structuredContent.items."
+    : payload.summary.pending
+      ? `${payload.summary.pending} item(s) are still pending. Call import_weblinks again with the same source to continue.`
+      : "All items were processed.";
+
+  return [
+    "## Weblink Import",
+    "",
+    `- Source: ${payload.source.label} (${payload.source.format})`,
+    `- Space ID: \`${payload.spaceId}\``,
+    `- Items in source: ${payload.summary.total}`,
+    `- Saved: ${payload.summary.saved}`,
+    ...(payload.dryRun ? [`- Previewed (not saved): ${payload.summary.previewed}`] : []),
+    `- Skipped: ${payload.summary.skipped}`,
+    `- Failed: ${payload.summary.failed}`,
+    `- Pending: ${payload.summary.pending}`,
+    `- Checkpoint: \`${payload.checkpointPath}\``,
+    ...(payload.aborted ? ["- Stopped early: the request was cancelled."] : []),
+    "",
+    nextStep,
+    "",
+    "### Items",
+    ...itemLines
+  ].join("\n");
+}
+
+function renderMarkdownIngestMarkdown(
+  spaceId: string,
+  files: MarkdownFile[],
+  summary: Record<"files" | "chunks" | "saved" | "previewed" | "failed" | "notSent", number>,
+  results: MarkdownChunkResult[],
+  dryRun: boolean
+): string {
+  const chunkLines = results.length
+    ? results.map((result) => {
+        const detail = result.error ? ` - ${result.error.message}` : "";
+        return `- \`${result.file}\` part ${result.part}/${result.parts} (${result.length} chars): ${result.status}${detail}`;
+      })
+    : ["- No content to send."];
+  const strippedFiles = files.filter((file) => file.frontMatterStripped).length;
+
+  return [
+    "## Markdown Ingest",
+    "",
+    `- Space ID: \`${spaceId}\``,
+    `- Files: ${summary.files} (front matter stripped from ${strippedFiles})`,
+    `- Chunks: ${summary.chunks}`,
+    `- Saved: ${summary.saved}`,
+    ...(dryRun ? [`- Previewed (not saved): ${summary.previewed}`] : []),
+    `- Failed: ${summary.failed}`,
+    `- Not sent: ${summary.notSent}`,
+    ...(dryRun
+      ? [
+          "",
+          "Dry run: nothing was sent to Capacities. Request previews are in structuredContent.chunks."
+        ]
+      : []),
+    ...(summary.failed
+      ? ["", "Sending stopped at the first failed chunk so the daily note stays in order."]
+      : []),
+    "",
+    "### Chunks",
+    ...chunkLines
+  ].join("\n");
+}
+
+function errorResult(toolName: string, error: unknown) {
+  const normalizedError = normalizeCapacitiesError(error);
+  const statusLine = normalizedError.status !== undefined ? `- Status: ${normalizedError.status}` : "";
+
+  const markdown = [
+    `## ${toolName} error`,
+    "",
+    `- Code: \`${normalizedError.code}\``,
+    `- Message: ${normalizedError.message}`,
+    statusLine,
+    `- Action: ${normalizedError.actionableMessage}`
+  ]
+    .filter((line) => line.length > 0)
+    .join("\n");
+
+  return {
+    content: toTextContent(markdown),
+    structuredContent: {
+      tool: toolName,
+      ok: false,
+      error: {
+        code: normalizedError.code,
+        message: normalizedError.message,
+        status: normalizedError.status ?? null,
+        actionableMessage: normalizedError.actionableMessage
+      }
+    },
+    isError: true
+  };
+}
+
+function trimToUndefined(value: string | undefined): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : undefined;
+}
+
+function toTextContent(text: string): [{ type: "text"; text: string }] {
+  return [{ type: "text", text }];
+}
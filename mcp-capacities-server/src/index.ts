@@ -1,26 +1,116 @@
+import { join } from "node:path";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { AuditLog } from "./audit-log.js";
 import { CapacitiesApiClient } from "./capacities-client.js";
-import { loadCapacitiesConfig } from "./config.js";
+import { CaptureLog } from "./capture-log.js";
+import type { CapacitiesConfig } from "./config.js";
+import { loadCapacitiesConfig, loadTransportConfig } from "./config.js";
+import { startHttpServer } from "./http-server.js";
+import { registerImportTools } from "./import-tools.js";
 import { registerMutationTools } from "./mutation-tools.js";
+import { registerPrompts } from "./prompts.js";
 import { registerReadQueryTools } from "./read-query-tools.js";
+import { registerResources } from "./resources.js";
+import { TaskLedger } from "./task-ledger.js";
+import type { ToolExposure, ToolRegistrar } from "./tool-access.js";
+import { assertKnownToolNames, createToolRegistrar, describeToolExposure } from "./tool-access.js";
+import { WeblinkLedger } from "./weblink-ledger.js";
 
-async function main(): Promise<void> {
-  const env =
-    (globalThis as { process?: { env?: Record<string, string | undefined> } }).process?.env ?? {};
-  const config = loadCapacitiesConfig(env);
-  const client = new CapacitiesApiClient(config);
+interface ServerDependencies {
+  client: CapacitiesApiClient;
+  config: CapacitiesConfig;
+  taskLedger?: TaskLedger;
+  weblinkLedger: WeblinkLedger;
+  captureLog?: CaptureLog;
+  auditLog?: AuditLog;
+}
+
+function registerTools(registrar: ToolRegistrar, dependencies: ServerDependencies): void {
+  registerReadQueryTools(registrar, dependencies);
+  registerMutationTools(registrar, dependencies);
+  registerImportTools(registrar, dependencies);
+}
 
+function resolveToolExposure(dependencies: ServerDependencies): ToolExposure {
+  const { toolAccess } = dependencies.config;
+  const tools: ToolExposure = { exposed: [], disabled: [] };
+  registerTools(createToolRegistrar(undefined, toolAccess, tools), dependencies);
+  assertKnownToolNames(toolAccess, tools);
+  return tools;
+}
+
+function createMcpServer(dependencies: ServerDependencies): McpServer {
   const server = new McpServer({
     name: "mcp-capacities-server",
     version: "0.1.0"
   });
+  const tools: ToolExposure = { exposed: [], disabled: [] };
+
+  registerTools(createToolRegistrar(server, dependencies.config.toolAccess, tools), dependencies);
+  registerResources(server, dependencies);
+  registerPrompts(server, { ...dependencies, exposedTools: tools.exposed });
+
+  return server;
+}
+
+async function main(): Promise<void> {
+  const config = loadCapacitiesConfig(process.env);
+  const transportConfig = loadTransportConfig(process.env, process.argv.slice(2));
+  const captureLog = config.captureLogEnabled
+    ? new CaptureLog(join(config.dataDir, "captures.jsonl"))
+    : undefined;
+  const auditLog = config.auditLogEnabled
+    ? new AuditLog(join(config.dataDir, "audit.jsonl"), {
+        maxBytes: config.auditLogMaxBytes,
+        maxFiles: config.auditLogMaxFiles
+      })
+    : undefined;
+  const client = new CapacitiesApiClient(config, fetch, { captureLog, auditLog });
+  const taskLedger = config.taskLedgerEnabled
+    ? new TaskLedger(join(config.dataDir, "tasks.json"))
+    : undefined;
+  const weblinkLedger = new WeblinkLedger(join(config.dataDir, "weblinks.json"));
+  const dependencies: ServerDependencies = {
+    client,
+    config,
+    taskLedger,
+    weblinkLedger,
+    captureLog,
+    auditLog
+  };
+  if (config.dryRun) {
+    console.error(
+      "mcp-capacities-server: CAPACITIES_DRY_RUN is enabled; write tools return request previews without calling Capacities."
+    );
+  }
+
+  const tools = resolveToolExposure(dependencies);
+  console.error(`mcp-capacities-server: ${describeToolExposure(tools)}`);
+
+  if (transportConfig.mode === "http" && transportConfig.http) {
+    const httpServer = await startHttpServer(
+      () => createMcpServer(dependencies),
+      transportConfig.http
+    );
+    console.error(`mcp-capacities-server listening on ${httpServer.url}`);
 
-  registerReadQueryTools(server, { client, config });
-  registerMutationTools(server, { config });
+    const shutdown = (signal: string) => {
+      console.error(
+        `Received ${signal}, closing ${httpServer.sessionCount()} MCP session(s) and shutting down.`
+      );
+      httpServer.close().then(
+        () => process.exit(0),
+        () => process.exit(1)
+      );
+    };
+    process.once("SIGINT", shutdown);
+    process.once("SIGTERM", shutdown);
+    return;
+  }
 
   const transport = new StdioServerTransport();
-  await server.connect(transport);
+  await createMcpServer(dependencies).connect(transport);
 }
 
 main().catch((error: unknown) => {
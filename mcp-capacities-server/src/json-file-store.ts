@@ -0,0 +1,94 @@
+import { mkdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { createStorageError } from "./errors.js";
+
+export interface JsonFileStoreOptions<T> {
+  label: string;
+  empty: () => T;
+  normalize: (parsed: unknown) => T;
+}
+
+// A JSON document on disk. Writes go to a temp file that is renamed into place, and
+// mutations are queued so concurrent read-modify-write cycles do not lose updates.
+export class JsonFileStore<T> {
+  readonly filePath: string;
+  private readonly label: string;
+  private readonly empty: () => T;
+  private readonly normalize: (parsed: unknown) => T;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(filePath: string, options: JsonFileStoreOptions<T>) {
+    this.filePath = filePath;
+    this.label = options.label;
+    this.empty = options.empty;
+    this.normalize = options.normalize;
+  }
+
+  async read(): Promise<T> {
+    let raw: string;
+    try {
+      raw = await readFile(this.filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return this.empty();
+      }
+      throw createStorageError(`Failed to read ${this.label} ${this.filePath}: ${String(error)}`);
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      throw createStorageError(
+        `${capitalize(this.label)} ${this.filePath} does not contain valid JSON.`
+      );
+    }
+    return this.normalize(parsed);
+  }
+
+  mutate<R>(apply: (value: T) => R): Promise<R> {
+    return this.enqueue(async () => {
+      const value = await this.read();
+      const result = apply(value);
+      await this.writeFile(value);
+      return result;
+    });
+  }
+
+  write(value: T): Promise<void> {
+    return this.enqueue(() => this.writeFile(value));
+  }
+
+  remove(): Promise<void> {
+    return this.enqueue(async () => {
+      try {
+        await rm(this.filePath, { force: true });
+      } catch (error) {
+        throw createStorageError(
+          `Failed to remove ${this.label} ${this.filePath}: ${String(error)}`
+        );
+      }
+    });
+  }
+
+  private enqueue<R>(run: () => Promise<R>): Promise<R> {
+    const current = this.queue.then(run);
+    this.queue = current.catch(() => undefined);
+    return current;
+  }
+
+  private async writeFile(value: T): Promise<void> {
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    try {
+      await mkdir(dirname(this.filePath), { recursive: true });
+      await writeFile(tempPath, `${JSON.stringify(value, null, 2)}\n`, "utf8");
+      await rename(tempPath, this.filePath);
+    } catch (error) {
+      throw createStorageError(`Failed to write ${this.label} ${this.filePath}: ${String(error)}`);
+    }
+  }
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
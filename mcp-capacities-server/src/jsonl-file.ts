@@ -0,0 +1,65 @@
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { createStorageError } from "./errors.js";
+
+export interface JsonlAppendOptions {
+  beforeAppend?: (lineBytes: number) => Promise<void>;
+}
+
+// An append-only JSON Lines file. Appends are queued so records never interleave.
+export class JsonlFile<T> {
+  readonly filePath: string;
+  private readonly label: string;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(filePath: string, label: string) {
+    this.filePath = filePath;
+    this.label = label;
+  }
+
+  append(record: T, options: JsonlAppendOptions = {}): Promise<void> {
+    const run = this.queue.then(async () => {
+      const line = `${JSON.stringify(record)}\n`;
+      try {
+        await mkdir(dirname(this.filePath), { recursive: true });
+        await options.beforeAppend?.(Buffer.byteLength(line));
+        await appendFile(this.filePath, line, "utf8");
+      } catch (error) {
+        throw createStorageError(
+          `Failed to append to ${this.label} ${this.filePath}: ${String(error)}`
+        );
+      }
+    });
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  read(): Promise<T[]> {
+    return readJsonlFile<T>(this.filePath, this.label);
+  }
+}
+
+export async function readJsonlFile<T>(filePath: string, label: string): Promise<T[]> {
+  let raw: string;
+  try {
+    raw = await readFile(filePath, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw createStorageError(`Failed to read ${label} ${filePath}: ${String(error)}`);
+  }
+
+  const records: T[] = [];
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      records.push(JSON.parse(line) as T);
+    } catch {
+      // Skip partially written lines; the log is append-only and may end mid-write.
+    }
+  }
+  return records;
+}
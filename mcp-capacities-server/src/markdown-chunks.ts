@@ -0,0 +1,111 @@
+const FRONT_MATTER_PATTERN = /^(?:\uFEFF)?---[ \t]*\r?\n[\s\S]*?\r?\n(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/;
+const HEADING_PATTERN = /^#{1,6}[ \t]/;
+const FENCE_PATTERN = /^[ \t]*(```|~~~)/;
+
+type SplitLevel = "section" | "paragraph" | "line";
+
+export function stripFrontMatter(markdown: string): { body: string; stripped: boolean } {
+  const match = FRONT_MATTER_PATTERN.exec(markdown);
+  if (!match) {
+    return { body: markdown, stripped: false };
+  }
+  return { body: markdown.slice(match[0].length), stripped: true };
+}
+
+export function splitMarkdown(markdown: string, maxLength: number): string[] {
+  const chunks: string[] = [];
+  let current = "";
+
+  const flush = () => {
+    if (current.trim()) {
+      chunks.push(current);
+    }
+    current = "";
+  };
+
+  const append = (piece: string, separator: string, level: SplitLevel) => {
+    const candidate = current ? `${current}${separator}${piece}` : piece;
+    if (candidate.length <= maxLength) {
+      current = candidate;
+      return;
+    }
+
+    flush();
+    if (piece.length <= maxLength) {
+      current = piece;
+      return;
+    }
+
+    if (level === "section") {
+      for (const paragraph of splitBlocks(piece)) {
+        append(paragraph, "\n\n", "paragraph");
+      }
+    } else if (level === "paragraph") {
+      for (const line of piece.split("\n")) {
+        append(line, "\n", "line");
+      }
+    } else {
+      for (let start = 0; start < piece.length; start += maxLength) {
+        append(piece.slice(start, start + maxLength), "", "line");
+      }
+    }
+  };
+
+  for (const section of splitSections(markdown.replace(/\r\n/g, "\n"))) {
+    append(section, "\n\n", "section");
+  }
+  flush();
+
+  return chunks;
+}
+
+function splitSections(markdown: string): string[] {
+  const sections: string[] = [];
+  let lines: string[] = [];
+  let inFence = false;
+
+  for (const line of markdown.split("\n")) {
+    if (FENCE_PATTERN.test(line)) {
+      inFence = !inFence;
+    }
+    if (!inFence && HEADING_PATTERN.test(line) && lines.some((existing) => existing.trim())) {
+      sections.push(trimBlankLines(lines.join("\n")));
+      lines = [];
+    }
+    lines.push(line);
+  }
+  if (lines.some((line) => line.trim())) {
+    sections.push(trimBlankLines(lines.join("\n")));
+  }
+
+  return sections;
+}
+
+function splitBlocks(section: string): string[] {
+  const blocks: string[] = [];
+  let lines: string[] = [];
+  let inFence = false;
+
+  for (const line of section.split("\n")) {
+    if (FENCE_PATTERN.test(line)) {
+      inFence = !inFence;
+    }
+    if (!inFence && !line.trim()) {
+      if (lines.length) {
+        blocks.push(lines.join("\n"));
+        lines = [];
+      }
+      continue;
+    }
+    lines.push(line);
+  }
+  if (lines.length) {
+    blocks.push(lines.join("\n"));
+  }
+
+  return blocks;
+}
+
+function trimBlankLines(value: string): string {
+  return value.replace(/^(?:[ \t]*\n)+/, "").replace(/(?:\n[ \t]*)+$/, "");
+}
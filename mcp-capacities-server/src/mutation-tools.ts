@@ -1,32 +1,79 @@
-import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import * as z from "zod/v4";
-import type { CapacitiesConfig } from "./config.js";
-import { resolveSpaceId } from "./config.js";
-import { normalizeDateInput } from "./date.js";
+import type { CapacitiesApiClient, CapacitiesRequestPreview } from "./capacities-client.js";
+import type { CapacitiesConfig, ResolvedDateContext } from "./config.js";
+import { resolveDateContext } from "./config.js";
+import { normalizeDateInput, toIsoLocalDate } from "./date.js";
 import { createUnsupportedError, createValidationError, normalizeCapacitiesError } from "./errors.js";
+import { summarizeRateLimitDelays, withRequestTrace } from "./request-trace.js";
+import { buildEntityDeepLink } from "./structure-metadata.js";
+import type { TaskChanges, TaskLedger, TaskRecord } from "./task-ledger.js";
+import type { ToolRegistrar } from "./tool-access.js";
+import type { WeblinkLedger, WeblinkRecord } from "./weblink-ledger.js";
+import { canonicalizeWeblinkUrl, DUPLICATE_POLICIES } from "./weblink-ledger.js";
 
 interface CreateTaskInput {
-  spaceId?: string;
+  spaceId: string;
   title: string;
   description?: string;
   dueDate?: string;
+  timeZone: string;
 }
 
 interface UpdateTaskInput {
   taskId: string;
-  spaceId?: string;
+  spaceId: string;
   title?: string;
   description?: string | null;
   dueDate?: string | null;
   status?: "open" | "completed";
+  timeZone: string;
 }
 
 interface CompleteTaskInput {
   taskId: string;
-  spaceId?: string;
+  spaceId: string;
   completed: boolean;
 }
 
+interface SaveWeblinkInput {
+  spaceId: string;
+  url: string;
+  titleOverwrite?: string;
+  descriptionOverwrite?: string;
+  tags?: string[];
+  mdText?: string;
+}
+
+interface WeblinkDuplicate {
+  source: "ledger" | "lookup";
+  entityId: string | null;
+  title: string | null;
+  url: string | null;
+  savedAt: string | null;
+  link: string | null;
+}
+
+interface WeblinkDuplicateCheck {
+  matches: WeblinkDuplicate[];
+  similar: WeblinkDuplicate[];
+  notes: string[];
+}
+
+interface SaveToDailyNoteInput {
+  spaceId: string;
+  mdText: string;
+  origin?: DailyNoteOrigin;
+  noTimeStamp?: boolean;
+}
+
+export const MAX_WEBLINK_TAGS = 30;
+export const MAX_MD_TEXT_LENGTH = 200_000;
+export const DAILY_NOTE_ORIGINS = ["commandPalette"] as const;
+const TASK_LEDGER_HINT =
+  "Set CAPACITIES_TASK_LEDGER=true to emulate tasks as daily-note checkboxes tracked in a local ledger.";
+
+type DailyNoteOrigin = (typeof DAILY_NOTE_ORIGINS)[number];
+
 const AVAILABLE_ENDPOINTS = [
   "/spaces",
   "/space-info",
@@ -36,25 +83,291 @@ const AVAILABLE_ENDPOINTS = [
 ] as const;
 
 export function registerMutationTools(
-  server: McpServer,
+  server: ToolRegistrar,
   dependencies: {
+    client: CapacitiesApiClient;
     config: CapacitiesConfig;
+    taskLedger?: TaskLedger;
+    weblinkLedger: WeblinkLedger;
   }
 ): void {
-  const { config } = dependencies;
+  const { client, config, taskLedger, weblinkLedger } = dependencies;
+
+  server.registerTool(
+    "save_weblink",
+    {
+      title: "Save Weblink",
+      description:
+        "Save a URL as a weblink object in the selected Capacities space via /save-weblink. Checks earlier saves of the same canonical URL first and reports similar weblinks found via /lookup; repeated calls with the same idempotencyKey return the original result.",
+      inputSchema: {
+        spaceId: z
+          .string()
+          .trim()
+          .optional()
+          .describe(
+            "Optional space UUID or title (case-insensitive). Falls back to CAPACITIES_SPACE_ID."
+          ),
+        url: z
+          .string()
+          .trim()
+          .min(1)
+          .max(2048)
+          .describe("Absolute http(s) URL to save. A missing scheme defaults to https."),
+        titleOverwrite: z
+          .string()
+          .trim()
+          .max(500)
+          .optional()
+          .describe("Optional title to use instead of the page title."),
+        descriptionOverwrite: z
+          .string()
+          .trim()
+          .max(1000)
+          .optional()
+          .describe("Optional description to use instead of the page description."),
+        tags: z
+          .array(z.string().trim().max(100))
+          .max(MAX_WEBLINK_TAGS)
+          .optional()
+          .describe(
+            "Optional tag names. Tags must match existing Capacities tags exactly, otherwise they are created."
+          ),
+        mdText: z
+          .string()
+          .max(MAX_MD_TEXT_LENGTH)
+          .optional()
+          .describe("Optional markdown text added to the weblink notes."),
+        idempotencyKey: z
+          .string()
+          .trim()
+          .min(1)
+          .max(200)
+          .optional()
+          .describe(
+            "Optional client-chosen key. A repeated call with the same key returns the original result instead of saving again."
+          ),
+        duplicatePolicy: z
+          .enum(DUPLICATE_POLICIES)
+          .optional()
+          .describe(
+            "What to do when the URL looks already saved: 'skip' (do not save), 'warn' (save and report the match) or 'force' (no duplicate check). Defaults to CAPACITIES_DUPLICATE_POLICY."
+          ),
+        dryRun: z
+          .boolean()
+          .optional()
+          .describe(
+            "Build and validate the request without sending it. Defaults to CAPACITIES_DRY_RUN."
+          )
+      }
+    },
+    async (input) =>
+      withRequestTrace("save_weblink", async (trace) => {
+        try {
+          const spaceId = await client.resolveSpaceId(input.spaceId);
+          const payload = normalizeSaveWeblinkInput(input, spaceId);
+          const canonicalUrl = canonicalizeWeblinkUrl(payload.url);
+          const policy = input.duplicatePolicy ?? config.duplicatePolicy;
+          const idempotencyKey = input.idempotencyKey;
+
+          return await weblinkLedger.withIdempotencyKey(idempotencyKey, async () => {
+            if (idempotencyKey) {
+              const original = await weblinkLedger.findByIdempotencyKey(idempotencyKey);
+              if (original) {
+                assertSameIdempotentRequest(idempotencyKey, original, spaceId, canonicalUrl);
+                const markdown = renderSaveWeblinkMarkdown(payload, original.response, [
+                  `- Replayed: saved at ${original.savedAt} with idempotencyKey \`${idempotencyKey}\``
+                ]);
+                return {
+                  content: toTextContent(markdown),
+                  structuredContent: {
+                    tool: "save_weblink",
+                    rateLimit: summarizeRateLimitDelays(trace, client.getRateLimitQueueDepth()),
+                    ok: true,
+                    idempotentReplay: true,
+                    spaceId: payload.spaceId,
+                    canonicalUrl,
+                    saved: payload,
+                    response: original.response
+                  }
+                };
+              }
+            }
+
+            const duplicates: WeblinkDuplicateCheck =
+              policy === "force"
+                ? { matches: [], similar: [], notes: [] }
+                : await findWeblinkDuplicates(client, weblinkLedger, payload, canonicalUrl);
+            if (policy === "skip" && duplicates.matches.length) {
+              return {
+                content: toTextContent(
+                  renderDuplicateSkippedMarkdown(payload, canonicalUrl, duplicates)
+                ),
+                structuredContent: {
+                  tool: "save_weblink",
+                  rateLimit: summarizeRateLimitDelays(trace, client.getRateLimitQueueDepth()),
+                  ok: true,
+                  skipped: true,
+                  duplicatePolicy: policy,
+                  spaceId: payload.spaceId,
+                  canonicalUrl,
+                  duplicates: duplicates.matches
+                }
+              };
+            }
+
+            const result = await client.saveWeblink(payload, { dryRun: input.dryRun });
+            if (!result.persisted) {
+              return dryRunResult("save_weblink", "Weblink", result.request, {
+                rateLimit: summarizeRateLimitDelays(trace, client.getRateLimitQueueDepth()),
+                spaceId: payload.spaceId,
+                canonicalUrl,
+                duplicatePolicy: policy,
+                duplicates: duplicates.matches,
+                similar: duplicates.similar,
+                saved: payload
+              });
+            }
+
+            const { response } = result;
+            const notes = [...duplicates.notes];
+            try {
+              await weblinkLedger.record({
+                spaceId: payload.spaceId,
+                url: payload.url,
+                canonicalUrl,
+                entityId: typeof response.id === "string" ? response.id : null,
+                title:
+                  payload.titleOverwrite ??
+                  (typeof response.title === "string" ? response.title : null),
+                idempotencyKey: idempotencyKey ?? null,
+                response
+              });
+            } catch (error) {
+              notes.push(
+                `Saved, but the weblink ledger was not updated. ${normalizeCapacitiesError(error).message}`
+              );
+            }
+
+            const markdown = renderSaveWeblinkMarkdown(payload, response, [
+              ...duplicates.matches.map(
+                (match) => `- Already saved: ${renderWeblinkDuplicate(match)}`
+              ),
+              ...duplicates.similar.map(
+                (match) => `- Similar weblink: ${renderWeblinkDuplicate(match)}`
+              ),
+              ...notes.map((note) => `- Note: ${note}`)
+            ]);
+
+            return {
+              content: toTextContent(markdown),
+              structuredContent: {
+                tool: "save_weblink",
+                rateLimit: summarizeRateLimitDelays(trace, client.getRateLimitQueueDepth()),
+                ok: true,
+                duplicatePolicy: policy,
+                spaceId: payload.spaceId,
+                canonicalUrl,
+                saved: payload,
+                ...(duplicates.matches.length ? { duplicates: duplicates.matches } : {}),
+                ...(duplicates.similar.length ? { similar: duplicates.similar } : {}),
+                ...(notes.length ? { notes } : {}),
+                response
+              }
+            };
+          });
+        } catch (error) {
+          return errorResult("save_weblink", error);
+        }
+      })
+  );
+
+  server.registerTool(
+    "save_to_daily_note",
+    {
+      title: "Save To Daily Note",
+      description:
+        "Append markdown text to today's daily note in the selected Capacities space via /save-to-daily-note.",
+      inputSchema: {
+        spaceId: z
+          .string()
+          .trim()
+          .optional()
+          .describe(
+            "Optional space UUID or title (case-insensitive). Falls back to CAPACITIES_SPACE_ID."
+          ),
+        mdText: z
+          .string()
+          .min(1)
+          .max(MAX_MD_TEXT_LENGTH)
+          .describe("Markdown text to append to today's daily note."),
+        origin: z
+          .enum(DAILY_NOTE_ORIGINS)
+          .optional()
+          .describe("Optional origin label accepted by Capacities. Only 'commandPalette' is supported."),
+        noTimeStamp: z
+          .boolean()
+          .optional()
+          .describe("Set to true to append without the automatic timestamp. Default: false."),
+        dryRun: z
+          .boolean()
+          .optional()
+          .describe(
+            "Build and validate the request without sending it. Defaults to CAPACITIES_DRY_RUN."
+          )
+      }
+    },
+    async (input) =>
+      withRequestTrace("save_to_daily_note", async (trace) => {
+        try {
+          const spaceId = await client.resolveSpaceId(input.spaceId);
+          const payload = normalizeSaveToDailyNoteInput(input, spaceId);
+          const result = await client.saveToDailyNote(payload, { dryRun: input.dryRun });
+          const saved = {
+            mdTextLength: payload.mdText.length,
+            origin: payload.origin ?? null,
+            noTimeStamp: payload.noTimeStamp ?? false
+          };
+          if (!result.persisted) {
+            return dryRunResult("save_to_daily_note", "Daily Note Append", result.request, {
+              rateLimit: summarizeRateLimitDelays(trace, client.getRateLimitQueueDepth()),
+              spaceId: payload.spaceId,
+              saved
+            });
+          }
+
+          const markdown = renderSaveToDailyNoteMarkdown(payload);
+
+          return {
+            content: toTextContent(markdown),
+            structuredContent: {
+              tool: "save_to_daily_note",
+              rateLimit: summarizeRateLimitDelays(trace, client.getRateLimitQueueDepth()),
+              ok: true,
+              spaceId: payload.spaceId,
+              saved,
+              response: result.response
+            }
+          };
+        } catch (error) {
+          return errorResult("save_to_daily_note", error);
+        }
+      })
+  );
 
   server.registerTool(
     "create_task",
     {
       title: "Create Task",
       description:
-        "Validate task-create inputs and return deterministic unsupported guidance because Capacities public API has no documented task-create endpoint.",
+        "Create a task. With CAPACITIES_TASK_LEDGER=true, appends a checkbox to today's daily note and records the task in the local ledger; otherwise returns deterministic unsupported guidance because Capacities public API has no task endpoint.",
       inputSchema: {
         spaceId: z
           .string()
           .trim()
           .optional()
-          .describe("Optional UUID for the space. Falls back to CAPACITIES_SPACE_ID."),
+          .describe(
+            "Optional space UUID or title (case-insensitive). Falls back to CAPACITIES_SPACE_ID."
+          ),
         title: z
           .string()
           .trim()
@@ -70,24 +383,72 @@ export function registerMutationTools(
           .string()
           .trim()
           .optional()
-          .describe("Optional due date (YYYY-MM-DD or 'yesterday').")
+          .describe("Optional due date (YYYY-MM-DD or an expression like 'tomorrow' or 'next friday')."),
+        timeZone: z
+          .string()
+          .trim()
+          .optional()
+          .describe(
+            "Optional IANA time zone (e.g. 'Europe/Berlin') for resolving dates. Defaults to CAPACITIES_TIMEZONE."
+          ),
+        dryRun: z
+          .boolean()
+          .optional()
+          .describe(
+            "Build and validate the request without sending it. Defaults to CAPACITIES_DRY_RUN."
+          )
       }
     },
-    async (input) => {
-      try {
-        const payload = normalizeCreateTaskInput(input, config);
-        return unsupportedResult(
-          "create_task",
-          "Capacities public API does not provide a documented endpoint for creating tasks.",
-          {
-            requestedTask: payload,
-            availableEndpoints: AVAILABLE_ENDPOINTS
+    async (input) =>
+      withRequestTrace("create_task", async () => {
+        try {
+          const spaceId = await client.resolveSpaceId(input.spaceId);
+          const payload = normalizeCreateTaskInput(
+            input,
+            spaceId,
+            resolveDateContext(config, input.timeZone)
+          );
+          if (!taskLedger) {
+            return unsupportedResult(
+              "create_task",
+              "Capacities public API does not provide a documented endpoint for creating tasks.",
+              {
+                requestedTask: payload,
+                availableEndpoints: AVAILABLE_ENDPOINTS,
+                emulation: TASK_LEDGER_HINT
+              }
+            );
           }
-        );
-      } catch (error) {
-        return errorResult("create_task", error);
-      }
-    }
+
+          const mdText = renderTaskCheckboxMarkdown(payload);
+          const createdOn = toIsoLocalDate(new Date(), payload.timeZone);
+          const result = await client.saveToDailyNote({ spaceId, mdText }, { dryRun: input.dryRun });
+          if (!result.persisted) {
+            return dryRunResult("create_task", "Task Creation", result.request, {
+              emulated: true,
+              task: { ...payload, status: "open", createdOn },
+              dailyNote: { spaceId, mdText }
+            });
+          }
+          let task: TaskRecord;
+          try {
+            task = await taskLedger.create({ ...payload, createdOn });
+          } catch (error) {
+            return taskLedgerFailedResult(
+              "create_task",
+              "Task Created",
+              { ...payload, status: "open", createdOn },
+              mdText,
+              error,
+              payload.timeZone
+            );
+          }
+
+          return taskResult("create_task", "Task Created", task, mdText, payload.timeZone);
+        } catch (error) {
+          return errorResult("create_task", error);
+        }
+      })
   );
 
   server.registerTool(
@@ -95,7 +456,7 @@ export function registerMutationTools(
     {
       title: "Update Task",
       description:
-        "Validate task-update inputs and return deterministic unsupported guidance because Capacities public API has no documented task-update endpoint.",
+        "Update a ledger task. With CAPACITIES_TASK_LEDGER=true, updates the local ledger and appends a follow-up line to today's daily note; otherwise returns deterministic unsupported guidance.",
       inputSchema: {
         taskId: z
           .string()
@@ -106,7 +467,9 @@ export function registerMutationTools(
           .string()
           .trim()
           .optional()
-          .describe("Optional UUID for the space. Falls back to CAPACITIES_SPACE_ID."),
+          .describe(
+            "Optional space UUID or title (case-insensitive). Falls back to CAPACITIES_SPACE_ID."
+          ),
         title: z
           .string()
           .trim()
@@ -125,28 +488,94 @@ export function registerMutationTools(
           .trim()
           .nullable()
           .optional()
-          .describe("Optional updated due date (YYYY-MM-DD or 'yesterday'). Use null to clear."),
+          .describe(
+            "Optional updated due date (YYYY-MM-DD or an expression like 'next friday'). Use null to clear."
+          ),
         status: z
           .enum(["open", "completed"])
           .optional()
-          .describe("Optional task status update.")
+          .describe("Optional task status update."),
+        timeZone: z
+          .string()
+          .trim()
+          .optional()
+          .describe(
+            "Optional IANA time zone (e.g. 'Europe/Berlin') for resolving dates. Defaults to CAPACITIES_TIMEZONE."
+          ),
+        dryRun: z
+          .boolean()
+          .optional()
+          .describe(
+            "Build and validate the request without sending it. Defaults to CAPACITIES_DRY_RUN."
+          )
       }
     },
-    async (input) => {
-      try {
-        const payload = normalizeUpdateTaskInput(input, config);
-        return unsupportedResult(
-          "update_task",
-          "Capacities public API does not provide a documented endpoint for updating task fields or status.",
-          {
-            requestedUpdate: payload,
-            availableEndpoints: AVAILABLE_ENDPOINTS
+    async (input) =>
+      withRequestTrace("update_task", async () => {
+        try {
+          if (!taskLedger) {
+            const spaceId = await client.resolveSpaceId(input.spaceId);
+            const payload = normalizeUpdateTaskInput(
+              input,
+              spaceId,
+              resolveDateContext(config, input.timeZone)
+            );
+            return unsupportedResult(
+              "update_task",
+              "Capacities public API does not provide a documented endpoint for updating task fields or status.",
+              {
+                requestedUpdate: payload,
+                availableEndpoints: AVAILABLE_ENDPOINTS,
+                emulation: TASK_LEDGER_HINT
+              }
+            );
           }
-        );
-      } catch (error) {
-        return errorResult("update_task", error);
-      }
-    }
+
+          const existing = await getLedgerTask(taskLedger, input.taskId);
+          const spaceId = await resolveTaskSpaceId(client, input.spaceId, existing);
+          const payload = normalizeUpdateTaskInput(
+            input,
+            spaceId,
+            resolveDateContext(config, input.timeZone)
+          );
+          const changes: TaskChanges = {
+            ...(payload.title !== undefined ? { title: payload.title } : {}),
+            ...(payload.description !== undefined ? { description: payload.description } : {}),
+            ...(payload.dueDate !== undefined ? { dueDate: payload.dueDate } : {}),
+            ...(payload.status !== undefined ? { status: payload.status } : {})
+          };
+
+          const mdText = renderTaskFollowUpMarkdown(
+            { ...existing, ...changes },
+            `updated: ${describeTaskChanges(changes)}`
+          );
+          const result = await client.saveToDailyNote({ spaceId, mdText }, { dryRun: input.dryRun });
+          if (!result.persisted) {
+            return dryRunResult("update_task", "Task Update", result.request, {
+              emulated: true,
+              task: { ...existing, ...changes },
+              dailyNote: { spaceId, mdText }
+            });
+          }
+          let task: TaskRecord;
+          try {
+            task = await taskLedger.update(existing.id, changes);
+          } catch (error) {
+            return taskLedgerFailedResult(
+              "update_task",
+              "Task Updated",
+              { ...existing, ...changes },
+              mdText,
+              error,
+              payload.timeZone
+            );
+          }
+
+          return taskResult("update_task", "Task Updated", task, mdText, payload.timeZone);
+        } catch (error) {
+          return errorResult("update_task", error);
+        }
+      })
   );
 
   server.registerTool(
@@ -154,7 +583,7 @@ export function registerMutationTools(
     {
       title: "Complete Task",
       description:
-        "Validate completion-toggle inputs and return deterministic unsupported guidance because Capacities public API has no documented task-complete endpoint.",
+        "Complete or reopen a ledger task. With CAPACITIES_TASK_LEDGER=true, updates the local ledger and appends a checked follow-up line to today's daily note; otherwise returns deterministic unsupported guidance.",
       inputSchema: {
         taskId: z
           .string()
@@ -165,28 +594,87 @@ export function registerMutationTools(
           .string()
           .trim()
           .optional()
-          .describe("Optional UUID for the space. Falls back to CAPACITIES_SPACE_ID."),
+          .describe(
+            "Optional space UUID or title (case-insensitive). Falls back to CAPACITIES_SPACE_ID."
+          ),
         completed: z
           .boolean()
           .optional()
-          .describe("Set to true to complete, false to uncomplete. Default: true.")
+          .describe("Set to true to complete, false to uncomplete. Default: true."),
+        dryRun: z
+          .boolean()
+          .optional()
+          .describe(
+            "Build and validate the request without sending it. Defaults to CAPACITIES_DRY_RUN."
+          )
       }
     },
-    async (input) => {
-      try {
-        const payload = normalizeCompleteTaskInput(input, config);
-        return unsupportedResult(
-          "complete_task",
-          "Capacities public API does not provide a documented endpoint for completing or uncompleting tasks.",
-          {
-            requestedAction: payload,
-            availableEndpoints: AVAILABLE_ENDPOINTS
+    async (input) =>
+      withRequestTrace("complete_task", async () => {
+        try {
+          if (!taskLedger) {
+            const spaceId = await client.resolveSpaceId(input.spaceId);
+            const payload = normalizeCompleteTaskInput(input, spaceId);
+            return unsupportedResult(
+              "complete_task",
+              "Capacities public API does not provide a documented endpoint for completing or uncompleting tasks.",
+              {
+                requestedAction: payload,
+                availableEndpoints: AVAILABLE_ENDPOINTS,
+                emulation: TASK_LEDGER_HINT
+              }
+            );
           }
-        );
-      } catch (error) {
-        return errorResult("complete_task", error);
-      }
-    }
+
+          const existing = await getLedgerTask(taskLedger, input.taskId);
+          const spaceId = await resolveTaskSpaceId(client, input.spaceId, existing);
+          const payload = normalizeCompleteTaskInput(input, spaceId);
+          const status = payload.completed ? "completed" : "open";
+          const { timeZone } = resolveDateContext(config);
+
+          const mdText = renderTaskFollowUpMarkdown(
+            { ...existing, status },
+            payload.completed ? "completed" : "reopened"
+          );
+          const result = await client.saveToDailyNote({ spaceId, mdText }, { dryRun: input.dryRun });
+          if (!result.persisted) {
+            return dryRunResult(
+              "complete_task",
+              payload.completed ? "Task Completion" : "Task Reopen",
+              result.request,
+              {
+                emulated: true,
+                task: { ...existing, status },
+                dailyNote: { spaceId, mdText }
+              }
+            );
+          }
+          const heading = payload.completed ? "Task Completed" : "Task Reopened";
+          let task: TaskRecord;
+          try {
+            task = await taskLedger.update(existing.id, { status });
+          } catch (error) {
+            return taskLedgerFailedResult(
+              "complete_task",
+              heading,
+              { ...existing, status },
+              mdText,
+              error,
+              timeZone
+            );
+          }
+
+          return taskResult(
+            "complete_task",
+            heading,
+            task,
+            mdText,
+            timeZone
+          );
+        } catch (error) {
+          return errorResult("complete_task", error);
+        }
+      })
   );
 }
 
@@ -196,8 +684,10 @@ function normalizeCreateTaskInput(
     title: string;
     description?: string;
     dueDate?: string;
+    timeZone?: string;
   },
-  config: CapacitiesConfig
+  spaceId: string,
+  dateContext: ResolvedDateContext
 ): CreateTaskInput {
   const title = trimToUndefined(input.title);
   if (!title) {
@@ -205,10 +695,11 @@ function normalizeCreateTaskInput(
   }
 
   return {
-    spaceId: resolveSpaceId(input.spaceId, config),
+    spaceId,
     title,
     description: trimToUndefined(input.description),
-    dueDate: normalizeOptionalDate(input.dueDate)
+    dueDate: normalizeOptionalDate(input.dueDate, dateContext),
+    timeZone: dateContext.timeZone
   };
 }
 
@@ -220,8 +711,10 @@ function normalizeUpdateTaskInput(
     description?: string | null;
     dueDate?: string | null;
     status?: "open" | "completed";
+    timeZone?: string;
   },
-  config: CapacitiesConfig
+  spaceId: string,
+  dateContext: ResolvedDateContext
 ): UpdateTaskInput {
   const taskId = trimToUndefined(input.taskId);
   if (!taskId) {
@@ -234,7 +727,7 @@ function normalizeUpdateTaskInput(
   }
 
   const description = normalizeNullableText(input.description, "description");
-  const dueDate = normalizeNullableDate(input.dueDate);
+  const dueDate = normalizeNullableDate(input.dueDate, dateContext);
   const status = input.status;
 
   if (
@@ -250,11 +743,12 @@ function normalizeUpdateTaskInput(
 
   return {
     taskId,
-    spaceId: resolveSpaceId(input.spaceId, config),
+    spaceId,
     title,
     description,
     dueDate,
-    status
+    status,
+    timeZone: dateContext.timeZone
   };
 }
 
@@ -264,7 +758,7 @@ function normalizeCompleteTaskInput(
     spaceId?: string;
     completed?: boolean;
   },
-  config: CapacitiesConfig
+  spaceId: string
 ): CompleteTaskInput {
   const taskId = trimToUndefined(input.taskId);
   if (!taskId) {
@@ -273,11 +767,209 @@ function normalizeCompleteTaskInput(
 
   return {
     taskId,
-    spaceId: resolveSpaceId(input.spaceId, config),
+    spaceId,
     completed: input.completed ?? true
   };
 }
 
+function normalizeSaveWeblinkInput(
+  input: {
+    spaceId?: string;
+    url: string;
+    titleOverwrite?: string;
+    descriptionOverwrite?: string;
+    tags?: string[];
+    mdText?: string;
+  },
+  spaceId: string
+): SaveWeblinkInput {
+  const tags = normalizeTags(input.tags);
+  const mdText = trimToUndefined(input.mdText);
+
+  return {
+    spaceId,
+    url: normalizeWeblinkUrl(input.url),
+    titleOverwrite: trimToUndefined(input.titleOverwrite),
+    descriptionOverwrite: trimToUndefined(input.descriptionOverwrite),
+    ...(tags.length ? { tags } : {}),
+    ...(mdText ? { mdText } : {})
+  };
+}
+
+async function findWeblinkDuplicates(
+  client: CapacitiesApiClient,
+  weblinkLedger: WeblinkLedger,
+  payload: SaveWeblinkInput,
+  canonicalUrl: string
+): Promise<WeblinkDuplicateCheck> {
+  const saved = await weblinkLedger.findByCanonicalUrl(payload.spaceId, canonicalUrl);
+  if (saved) {
+    return {
+      matches: [
+        {
+          source: "ledger",
+          entityId: saved.entityId,
+          title: saved.title,
+          url: saved.url,
+          savedAt: saved.savedAt,
+          link: saved.entityId ? buildEntityDeepLink(payload.spaceId, saved.entityId) : null
+        }
+      ],
+      similar: [],
+      notes: []
+    };
+  }
+
+  const host = new URL(canonicalUrl).hostname;
+  const title = payload.titleOverwrite?.toLowerCase();
+  try {
+    const { results } = await client.lookup(payload.titleOverwrite ?? host, payload.spaceId);
+    const similar = results
+      .filter((result) => {
+        const resultTitle = result.title.trim().toLowerCase();
+        return title ? resultTitle === title : resultTitle.includes(host);
+      })
+      .map<WeblinkDuplicate>((result) => ({
+        source: "lookup",
+        entityId: result.id,
+        title: result.title,
+        url: null,
+        savedAt: null,
+        link: buildEntityDeepLink(payload.spaceId, result.id)
+      }));
+    return { matches: [], similar, notes: [] };
+  } catch (error) {
+    return {
+      matches: [],
+      similar: [],
+      notes: [
+        `Duplicate lookup failed, so only the local ledger was checked. ${normalizeCapacitiesError(error).message}`
+      ]
+    };
+  }
+}
+
+function assertSameIdempotentRequest(
+  idempotencyKey: string,
+  original: WeblinkRecord,
+  spaceId: string,
+  canonicalUrl: string
+): void {
+  if (original.spaceId !== spaceId || original.canonicalUrl !== canonicalUrl) {
+    throw createValidationError(
+      `idempotencyKey "${idempotencyKey}" was already used for ${original.url} in space ${original.spaceId}. Use a new key for a different weblink.`
+    );
+  }
+}
+
+async function getLedgerTask(taskLedger: TaskLedger, taskIdInput: string): Promise<TaskRecord> {
+  const taskId = trimToUndefined(taskIdInput);
+  if (!taskId) {
+    throw createValidationError("taskId must be a non-empty string.");
+  }
+
+  const task = await taskLedger.get(taskId);
+  if (!task) {
+    throw createValidationError(`Unknown taskId "${taskId}". Use list_tasks to find task IDs.`);
+  }
+  return task;
+}
+
+async function resolveTaskSpaceId(
+  client: CapacitiesApiClient,
+  spaceIdInput: string | undefined,
+  task: TaskRecord
+): Promise<string> {
+  if (!trimToUndefined(spaceIdInput)) {
+    return task.spaceId;
+  }
+
+  const spaceId = await client.resolveSpaceId(spaceIdInput);
+  if (spaceId !== task.spaceId) {
+    throw createValidationError(
+      `Task "${task.id}" belongs to space ${task.spaceId}, not ${spaceId}. Omit spaceId or use the task's space.`
+    );
+  }
+  return spaceId;
+}
+
+function normalizeSaveToDailyNoteInput(
+  input: {
+    spaceId?: string;
+    mdText: string;
+    origin?: DailyNoteOrigin;
+    noTimeStamp?: boolean;
+  },
+  spaceId: string
+): SaveToDailyNoteInput {
+  const mdText = input.mdText.trim();
+  if (!mdText) {
+    throw createValidationError("mdText must be a non-empty string.");
+  }
+  if (mdText.length > MAX_MD_TEXT_LENGTH) {
+    throw createValidationError(
+      `mdText must be at most ${MAX_MD_TEXT_LENGTH} characters. Received: ${mdText.length}.`
+    );
+  }
+
+  return {
+    spaceId,
+    mdText,
+    ...(input.origin ? { origin: input.origin } : {}),
+    ...(input.noTimeStamp !== undefined ? { noTimeStamp: input.noTimeStamp } : {})
+  };
+}
+
+export function normalizeWeblinkUrl(value: string): string {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    throw createValidationError("url must be a non-empty string.");
+  }
+
+  const candidate = /^[a-z][a-z0-9+.-]*:/i.test(trimmed) ? trimmed : `https://${trimmed}`;
+  let parsed: URL;
+  try {
+    parsed = new URL(candidate);
+  } catch {
+    throw createValidationError(`Invalid url "${value}". Provide an absolute http(s) URL.`);
+  }
+
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    throw createValidationError(
+      `Unsupported url scheme "${parsed.protocol}". Only http and https URLs can be saved.`
+    );
+  }
+  if (!parsed.hostname) {
+    throw createValidationError(`Invalid url "${value}". URL must include a host.`);
+  }
+
+  return parsed.href;
+}
+
+export function normalizeTags(tags: string[] | undefined): string[] {
+  if (!tags) {
+    return [];
+  }
+
+  const seen = new Set<string>();
+  const normalized: string[] = [];
+  for (const tag of tags) {
+    const trimmed = tag.trim();
+    const key = trimmed.toLowerCase();
+    if (!trimmed || seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+    normalized.push(trimmed);
+  }
+
+  if (normalized.length > MAX_WEBLINK_TAGS) {
+    throw createValidationError(`tags accepts at most ${MAX_WEBLINK_TAGS} unique values.`);
+  }
+
+  return normalized;
+}
+
 function normalizeNullableText(
   value: string | null | undefined,
   fieldName: string
@@ -292,7 +984,10 @@ function normalizeNullableText(
   return trimmed;
 }
 
-function normalizeOptionalDate(value: string | undefined): string | undefined {
+function normalizeOptionalDate(
+  value: string | undefined,
+  dateContext: ResolvedDateContext
+): string | undefined {
   if (value === undefined) {
     return undefined;
   }
@@ -300,10 +995,13 @@ function normalizeOptionalDate(value: string | undefined): string | undefined {
   if (!trimmed) {
     throw createValidationError("dueDate must be a non-empty date string when provided.");
   }
-  return normalizeDateInput(trimmed);
+  return normalizeDateInput(trimmed, dateContext);
 }
 
-function normalizeNullableDate(value: string | null | undefined): string | null | undefined {
+function normalizeNullableDate(
+  value: string | null | undefined,
+  dateContext: ResolvedDateContext
+): string | null | undefined {
   if (value === undefined || value === null) {
     return value;
   }
@@ -311,7 +1009,217 @@ function normalizeNullableDate(value: string | null | undefined): string | null
   if (!trimmed) {
     throw createValidationError("dueDate must be a non-empty date string when provided.");
   }
-  return normalizeDateInput(trimmed);
+  return normalizeDateInput(trimmed, dateContext);
+}
+
+function renderSaveWeblinkMarkdown(
+  payload: SaveWeblinkInput,
+  response: Record<string, unknown>,
+  extraLines: string[] = []
+): string {
+  const responseTitle = typeof response.title === "string" ? response.title : undefined;
+  const responseId = typeof response.id === "string" ? response.id : undefined;
+
+  return [
+    "## Weblink Saved",
+    "",
+    `- Space ID: \`${payload.spaceId}\``,
+    `- URL: ${payload.url}`,
+    `- Title: ${payload.titleOverwrite ?? responseTitle ?? "_Resolved by Capacities_"}`,
+    `- Entity ID: ${responseId ? `\`${responseId}\`` : "_Not returned_"}`,
+    `- Tags: ${payload.tags?.length ? payload.tags.map((tag) => `\`${tag}\``).join(", ") : "_None_"}`,
+    `- Notes attached: ${payload.mdText ? "yes" : "no"}`,
+    ...extraLines
+  ].join("\n");
+}
+
+function renderDuplicateSkippedMarkdown(
+  payload: SaveWeblinkInput,
+  canonicalUrl: string,
+  duplicates: WeblinkDuplicateCheck
+): string {
+  return [
+    "## Weblink Not Saved (Duplicate)",
+    "",
+    `- Space ID: \`${payload.spaceId}\``,
+    `- URL: ${payload.url}`,
+    `- Canonical URL: ${canonicalUrl}`,
+    "- Policy: `skip`. Call again with `duplicatePolicy: \"force\"` to save anyway.",
+    ...duplicates.notes.map((note) => `- Note: ${note}`),
+    "",
+    "### Existing Weblinks",
+    ...duplicates.matches.map((match) => `- ${renderWeblinkDuplicate(match)}`)
+  ].join("\n");
+}
+
+function renderWeblinkDuplicate(match: WeblinkDuplicate): string {
+  const label = match.title ?? match.url ?? "Untitled weblink";
+  const link = match.link ? ` ([Open in Capacities](${match.link}))` : "";
+  const origin =
+    match.source === "ledger"
+      ? `saved by this server${match.savedAt ? ` at ${match.savedAt}` : ""}`
+      : "found via /lookup";
+  return `${label}${link}, ${origin}`;
+}
+
+function renderTaskCheckboxMarkdown(task: {
+  title: string;
+  description?: string | null;
+  dueDate?: string | null;
+}): string {
+  const dueSuffix = task.dueDate ? ` (due ${task.dueDate})` : "";
+  const lines = [`- [ ] ${task.title}${dueSuffix}`];
+  if (task.description) {
+    lines.push(...task.description.split("\n").map((line) => `  ${line}`));
+  }
+  return lines.join("\n");
+}
+
+function renderTaskFollowUpMarkdown(
+  task: Pick<TaskRecord, "title" | "status" | "createdOn">,
+  summary: string
+): string {
+  const checkbox = task.status === "completed" ? "[x]" : "[ ]";
+  return `- ${checkbox} ${task.title} _(task from ${task.createdOn} ${summary})_`;
+}
+
+function describeTaskChanges(changes: TaskChanges): string {
+  const parts: string[] = [];
+  if (changes.title !== undefined) {
+    parts.push("title");
+  }
+  if (changes.description !== undefined) {
+    parts.push(changes.description === null ? "description cleared" : "description");
+  }
+  if (changes.dueDate !== undefined) {
+    parts.push(changes.dueDate === null ? "due date cleared" : `due ${changes.dueDate}`);
+  }
+  if (changes.status !== undefined) {
+    parts.push(`status ${changes.status}`);
+  }
+  return parts.join(", ");
+}
+
+function taskResult(
+  toolName: string,
+  heading: string,
+  task: TaskRecord,
+  mdText: string,
+  timeZone?: string
+) {
+  const markdown = [
+    `## ${heading}`,
+    "",
+    `- Task ID: \`${task.id}\``,
+    `- Title: ${task.title}`,
+    `- Status: ${task.status}`,
+    `- Due date: ${task.dueDate ?? "_None_"}`,
+    `- Space ID: \`${task.spaceId}\``,
+    `- Created on daily note: ${task.createdOn}`,
+    "",
+    "### Appended To Daily Note",
+    "```markdown",
+    mdText,
+    "```"
+  ].join("\n");
+
+  return {
+    content: toTextContent(markdown),
+    structuredContent: {
+      tool: toolName,
+      ok: true,
+      emulated: true,
+      task,
+      ...(timeZone ? { timeZone } : {}),
+      dailyNote: {
+        spaceId: task.spaceId,
+        mdText
+      }
+    }
+  };
+}
+
+function taskLedgerFailedResult(
+  toolName: string,
+  heading: string,
+  task: Partial<TaskRecord> & { title: string; spaceId: string },
+  mdText: string,
+  error: unknown,
+  timeZone?: string
+) {
+  const note = `Appended to the daily note, but the task ledger was not updated. Do not retry: that would append the line again. ${normalizeCapacitiesError(error).message}`;
+  const markdown = [
+    `## ${heading} (Ledger Not Updated)`,
+    "",
+    `- Note: ${note}`,
+    `- Title: ${task.title}`,
+    `- Space ID: \`${task.spaceId}\``,
+    "",
+    "### Appended To Daily Note",
+    "```markdown",
+    mdText,
+    "```"
+  ].join("\n");
+
+  return {
+    content: toTextContent(markdown),
+    structuredContent: {
+      tool: toolName,
+      ok: true,
+      emulated: true,
+      ledgerUpdated: false,
+      task,
+      ...(timeZone ? { timeZone } : {}),
+      dailyNote: {
+        spaceId: task.spaceId,
+        mdText
+      },
+      notes: [note]
+    }
+  };
+}
+
+function renderSaveToDailyNoteMarkdown(payload: SaveToDailyNoteInput): string {
+  return [
+    "## Saved To Daily Note",
+    "",
+    `- Space ID: \`${payload.spaceId}\``,
+    `- Characters appended: ${payload.mdText.length}`,
+    `- Origin: ${payload.origin ? `\`${payload.origin}\`` : "_Not provided_"}`,
+    `- Timestamp: ${payload.noTimeStamp ? "omitted" : "added by Capacities"}`
+  ].join("\n");
+}
+
+function dryRunResult(
+  toolName: string,
+  subject: string,
+  request: CapacitiesRequestPreview,
+  details: Record<string, unknown>
+) {
+  const markdown = [
+    `## ${subject} Preview (Dry Run)`,
+    "",
+    "- Persisted: **no**. Nothing was sent to Capacities.",
+    `- Request: \`${request.method} ${request.url}\``,
+    `- Body size: ${request.bodyBytes} bytes`,
+    "",
+    "### Request Body",
+    "```json",
+    JSON.stringify(request.body, null, 2),
+    "```"
+  ].join("\n");
+
+  return {
+    content: toTextContent(markdown),
+    structuredContent: {
+      tool: toolName,
+      ok: true,
+      dryRun: true,
+      persisted: false,
+      ...details,
+      request
+    }
+  };
 }
 
 function unsupportedResult(toolName: string, message: string, details: Record<string, unknown>) {
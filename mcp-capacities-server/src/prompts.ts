@@ -0,0 +1,202 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import * as z from "zod/v4";
+import type { CapacitiesConfig } from "./config.js";
+import { resolveDateContext } from "./config.js";
+import { normalizeDateInput } from "./date.js";
+import { CapacitiesError } from "./errors.js";
+
+export function registerPrompts(
+  server: McpServer,
+  dependencies: { config: CapacitiesConfig; exposedTools?: string[] }
+): void {
+  const { config, exposedTools } = dependencies;
+  const isToolExposed = (name: string) => !exposedTools || exposedTools.includes(name);
+
+  if (isToolExposed("save_weblink")) {
+    server.registerPrompt(
+      "capture_weblink",
+      {
+        title: "Capture Weblink",
+        description: "Save a link to Capacities with tags and an optional note via save_weblink.",
+        argsSchema: {
+          url: z.string().trim().min(1).describe("URL to capture."),
+          tags: z
+            .string()
+            .trim()
+            .optional()
+            .describe("Optional comma-separated tag names, for example 'reading, ai'."),
+          note: z
+            .string()
+            .trim()
+            .optional()
+            .describe("Optional note to attach to the weblink as markdown."),
+          spaceId: z
+            .string()
+            .trim()
+            .optional()
+            .describe("Optional space UUID or title. Falls back to CAPACITIES_SPACE_ID.")
+        }
+      },
+      ({ url, tags, note, spaceId }) => {
+        const tagList = parseTagList(tags);
+
+        return toUserPrompt(
+          [
+            `Capture this link in Capacities: ${url}`,
+            "",
+            "Steps:",
+            "1. Call `save_weblink` exactly once with:",
+            `   - \`url\`: \`${url}\``,
+            tagList.length
+              ? `   - \`tags\`: ${JSON.stringify(tagList)}`
+              : "   - `tags`: choose up to 3 short existing-style tags that describe the page, or omit them.",
+            note
+              ? `   - \`mdText\`: the note below, unchanged.`
+              : "   - `mdText`: omit unless I add a note.",
+            spaceId
+              ? `   - \`spaceId\`: \`${spaceId}\``
+              : "   - `spaceId`: omit to use the default space.",
+            "2. Do not retry `save_weblink` if it returns an error; report the error code and action instead.",
+            "3. Reply with the saved title, entity ID and tags in one short paragraph.",
+            ...(note ? ["", "Note:", note] : [])
+          ].join("\n")
+        );
+      }
+    );
+  }
+
+  if (isToolExposed("save_to_daily_note")) {
+    server.registerPrompt(
+      "log_daily_work",
+      {
+        title: "Log Daily Work",
+        description:
+          "Summarize what was done and append it to today's Capacities daily note via save_to_daily_note.",
+        argsSchema: {
+          activities: z
+            .string()
+            .trim()
+            .min(1)
+            .describe("What was done, as free text or a rough list."),
+          date: z
+            .string()
+            .trim()
+            .optional()
+            .describe(
+              "Optional single day the work happened: YYYY-MM-DD or an expression like 'yesterday', 'last friday' or '3 days ago'. Ranges such as 'this week' are rejected. Default: today."
+            ),
+          spaceId: z
+            .string()
+            .trim()
+            .optional()
+            .describe("Optional space UUID or title. Falls back to CAPACITIES_SPACE_ID.")
+        }
+      },
+      ({ activities, date, spaceId }) => {
+        const workDate = date ? resolvePromptDate("date", date, config) : undefined;
+
+        return toUserPrompt(
+          [
+            "Log my work to the Capacities daily note.",
+            "",
+            "Steps:",
+            "1. Rewrite the activities below as a concise markdown bullet list (one outcome per bullet, past tense, no filler).",
+            workDate
+              ? `2. Start the text with the heading \`### Work log ${workDate}\`. \`save_to_daily_note\` always writes to today's note, so the heading records the actual day.`
+              : "2. Start the text with the heading `### Work log`.",
+            "3. Call `save_to_daily_note` once with that markdown as `mdText`" +
+              (spaceId ? ` and \`spaceId\` \`${spaceId}\`.` : "."),
+            "4. Reply with the bullet list you saved.",
+            "",
+            "Activities:",
+            activities
+          ].join("\n")
+        );
+      }
+    );
+  }
+
+  if (isToolExposed("search_entities")) {
+    server.registerPrompt(
+      "research_topic",
+      {
+        title: "Research Topic",
+        description:
+          "Find everything in Capacities about a topic with search_entities and summarize it by object type.",
+        argsSchema: {
+          topic: z.string().trim().min(1).describe("Topic to research."),
+          type: z
+            .string()
+            .trim()
+            .optional()
+            .describe("Optional structure filter (ID, title or plural name), for example 'Pages'."),
+          spaceId: z
+            .string()
+            .trim()
+            .optional()
+            .describe("Optional space UUID or title. Falls back to CAPACITIES_SPACE_ID.")
+        }
+      },
+      ({ topic, type, spaceId }) =>
+        toUserPrompt(
+          [
+            `Find everything in Capacities about "${topic}" and summarize it.`,
+            "",
+            "Steps:",
+            `1. Call \`search_entities\` with \`text\` \`${topic}\`` +
+              (type ? `, \`type\` \`${type}\`` : "") +
+              (spaceId ? `, \`spaceId\` \`${spaceId}\`` : "") +
+              " and `limit` 50.",
+            "2. If there are few results, search again with 1-2 close synonyms or the singular/plural form. Do not run more than 3 searches in total.",
+            "3. Group the results by type, using the `structure` name included with each result, and list each entity title with its ID.",
+            "4. End with a two-sentence summary of what the space covers on this topic and any obvious gaps.",
+            "",
+            "Only report entities returned by the tools. Do not invent titles or IDs."
+          ].join("\n")
+        )
+    );
+  }
+}
+
+// Prompt callbacks cannot return tool-style error results, so invalid dates become invalid-params errors.
+function resolvePromptDate(argument: string, input: string, config: CapacitiesConfig): string {
+  try {
+    return normalizeDateInput(input, resolveDateContext(config));
+  } catch (error) {
+    if (error instanceof CapacitiesError && error.code === "validation_error") {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid ${argument} argument: ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+function parseTagList(tags: string | undefined): string[] {
+  if (!tags) {
+    return [];
+  }
+
+  const seen = new Set<string>();
+  const normalized: string[] = [];
+  for (const tag of tags.split(",")) {
+    const trimmed = tag.trim();
+    const key = trimmed.toLowerCase();
+    if (!trimmed || seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+    normalized.push(trimmed);
+  }
+  return normalized;
+}
+
+function toUserPrompt(text: string) {
+  return {
+    messages: [
+      {
+        role: "user" as const,
+        content: { type: "text" as const, text }
+      }
+    ]
+  };
+}
@@ -0,0 +1,154 @@
+export type CapacitiesEndpoint =
+  | "/spaces"
+  | "/space-info"
+  | "/lookup"
+  | "/save-weblink"
+  | "/save-to-daily-note";
+
+export interface RateLimit {
+  maxRequests: number;
+  windowMs: number;
+}
+
+export type RateLimitConfig = Record<CapacitiesEndpoint, RateLimit | null>;
+
+export interface RateLimitStatus {
+  endpoint: CapacitiesEndpoint;
+  limit: RateLimit | null;
+  availableTokens: number | null;
+  queueDepth: number;
+}
+
+export const CAPACITIES_ENDPOINTS: readonly CapacitiesEndpoint[] = [
+  "/spaces",
+  "/space-info",
+  "/lookup",
+  "/save-weblink",
+  "/save-to-daily-note"
+];
+
+export const DEFAULT_RATE_LIMITS: RateLimitConfig = {
+  "/spaces": { maxRequests: 5, windowMs: 60_000 },
+  "/space-info": { maxRequests: 5, windowMs: 60_000 },
+  "/lookup": { maxRequests: 120, windowMs: 60_000 },
+  "/save-weblink": { maxRequests: 10, windowMs: 60_000 },
+  "/save-to-daily-note": { maxRequests: 5, windowMs: 60_000 }
+};
+
+interface Clock {
+  now: () => number;
+  sleep: (ms: number) => Promise<void>;
+}
+
+class TokenBucket {
+  readonly limit: RateLimit;
+  private readonly clock: Clock;
+  private tokens: number;
+  private lastRefillAt: number;
+  private readonly waiters: Array<() => void> = [];
+  private draining = false;
+
+  constructor(limit: RateLimit, clock: Clock) {
+    this.limit = limit;
+    this.clock = clock;
+    this.tokens = limit.maxRequests;
+    this.lastRefillAt = clock.now();
+  }
+
+  get queueDepth(): number {
+    return this.waiters.length;
+  }
+
+  get availableTokens(): number {
+    this.refill();
+    return Math.floor(this.tokens);
+  }
+
+  acquire(): Promise<number> {
+    const requestedAt = this.clock.now();
+    return new Promise((resolve) => {
+      this.waiters.push(() => resolve(this.clock.now() - requestedAt));
+      void this.drain();
+    });
+  }
+
+  private async drain(): Promise<void> {
+    if (this.draining) {
+      return;
+    }
+    this.draining = true;
+
+    try {
+      while (this.waiters.length > 0) {
+        this.refill();
+        if (this.tokens >= 1) {
+          this.tokens -= 1;
+          this.waiters.shift()?.();
+          continue;
+        }
+
+        const refillPerMs = this.limit.maxRequests / this.limit.windowMs;
+        await this.clock.sleep(Math.ceil((1 - this.tokens) / refillPerMs));
+      }
+    } finally {
+      this.draining = false;
+    }
+  }
+
+  private refill(): void {
+    const now = this.clock.now();
+    const elapsedMs = now - this.lastRefillAt;
+    if (elapsedMs <= 0) {
+      return;
+    }
+    const refillPerMs = this.limit.maxRequests / this.limit.windowMs;
+    this.tokens = Math.min(this.limit.maxRequests, this.tokens + elapsedMs * refillPerMs);
+    this.lastRefillAt = now;
+  }
+}
+
+export class TokenBucketRateLimiter {
+  private readonly buckets = new Map<CapacitiesEndpoint, TokenBucket>();
+
+  constructor(limits: RateLimitConfig = DEFAULT_RATE_LIMITS, clock: Partial<Clock> = {}) {
+    const resolvedClock: Clock = {
+      now: clock.now ?? Date.now,
+      sleep: clock.sleep ?? ((ms) => new Promise((resolve) => setTimeout(resolve, ms)))
+    };
+
+    for (const endpoint of CAPACITIES_ENDPOINTS) {
+      const limit = limits[endpoint];
+      if (limit) {
+        this.buckets.set(endpoint, new TokenBucket(limit, resolvedClock));
+      }
+    }
+  }
+
+  async acquire(endpoint: CapacitiesEndpoint): Promise<number> {
+    const bucket = this.buckets.get(endpoint);
+    return bucket ? bucket.acquire() : 0;
+  }
+
+  getQueueDepth(endpoint?: CapacitiesEndpoint): number {
+    if (endpoint) {
+      return this.buckets.get(endpoint)?.queueDepth ?? 0;
+    }
+    let total = 0;
+    for (const bucket of this.buckets.values()) {
+      total += bucket.queueDepth;
+    }
+    return total;
+  }
+
+  getStatus(): RateLimitStatus[] {
+    return CAPACITIES_ENDPOINTS.map((endpoint) => {
+      const bucket = this.buckets.get(endpoint);
+      return {
+        endpoint,
+        limit: bucket?.limit ?? null,
+        availableTokens: bucket ? bucket.availableTokens : null,
+        queueDepth: bucket?.queueDepth ?? 0
+      };
+    });
+  }
+}
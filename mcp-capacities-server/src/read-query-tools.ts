@@ -1,13 +1,38 @@
-import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import * as z from "zod/v4";
-import type { CapacitiesConfig } from "./config.js";
-import { resolveSpaceId } from "./config.js";
-import type { CapacitiesLookupResult, CapacitiesStructureInfo } from "./capacities-client.js";
+import type { CapacitiesConfig, ResolvedDateContext } from "./config.js";
+import { resolveDateContext } from "./config.js";
+import type {
+  CapacitiesLookupResult,
+  CapacitiesSpace,
+  CapacitiesStructureInfo
+} from "./capacities-client.js";
 import { CapacitiesApiClient } from "./capacities-client.js";
-import { normalizeDateInput } from "./date.js";
+import type { AuditLog, AuditOutcome, AuditRecord } from "./audit-log.js";
+import { AUDIT_OUTCOMES } from "./audit-log.js";
+import type { CaptureKind, CaptureLog, CaptureRecord } from "./capture-log.js";
+import { resolveDateFilters, toIsoLocalDate } from "./date.js";
 import { createUnsupportedError, createValidationError, normalizeCapacitiesError } from "./errors.js";
+import type { RankedLookupResult, SearchRankingMode } from "./search-ranking.js";
+import { highlightMatches, rankLookupResults, SEARCH_RANKING_MODES } from "./search-ranking.js";
+import type { EntityEnrichment, StructureDescription } from "./structure-metadata.js";
+import {
+  describeStructure,
+  enrichLookupResults,
+  renderStructureLabel,
+  resolveStructureIdsByType
+} from "./structure-metadata.js";
+import {
+  summarizeCacheUsage,
+  summarizeRateLimitDelays,
+  withRequestTrace
+} from "./request-trace.js";
+import type { TaskLedger, TaskRecord } from "./task-ledger.js";
+import type { ToolRegistrar } from "./tool-access.js";
 
 const DEFAULT_LIMIT = 20;
+const MAX_AUDIT_LIMIT = 200;
+const MAX_BATCH_QUERIES = 20;
+const SEARCH_CURSOR_VERSION = 1;
 
 interface SearchEntitiesFilters {
   spaceId?: string;
@@ -16,6 +41,65 @@ interface SearchEntitiesFilters {
   date?: string;
   dateFrom?: string;
   dateTo?: string;
+  timeZone: string;
+  ranking: SearchRankingMode;
+  limit: number;
+}
+
+interface SearchCursorScope {
+  spaceId: string;
+  text: string;
+  type: string | null;
+  ranking: SearchRankingMode;
+}
+
+interface SearchBatchFilters {
+  spaceId?: string;
+  queries: string[];
+  type?: string;
+  limit: number;
+}
+
+type BatchQueryResult =
+  | {
+      text: string;
+      ok: true;
+      totalResultsBeforeLimit: number;
+      returnedResults: number;
+      results: EnrichedLookupResult[];
+    }
+  | {
+      text: string;
+      ok: false;
+      error: {
+        code: string;
+        message: string;
+        status: number | null;
+        actionableMessage: string;
+      };
+    };
+
+type EnrichedLookupResult = CapacitiesLookupResult & EntityEnrichment;
+
+interface MergedLookupResult extends EnrichedLookupResult {
+  matchedQueries: string[];
+}
+
+interface ListCapturesFilters {
+  spaceId?: string;
+  kind?: CaptureKind;
+  tag?: string;
+  date?: string;
+  dateFrom?: string;
+  dateTo?: string;
+  timeZone: string;
+  limit: number;
+}
+
+interface AuditLogFilters {
+  tool?: string;
+  endpoint?: string;
+  outcome?: AuditOutcome;
   limit: number;
 }
 
@@ -25,16 +109,63 @@ interface ListTasksFilters {
   date?: string;
   dateFrom?: string;
   dateTo?: string;
+  timeZone: string;
 }
 
 export function registerReadQueryTools(
-  server: McpServer,
+  server: ToolRegistrar,
   dependencies: {
     client: CapacitiesApiClient;
     config: CapacitiesConfig;
+    taskLedger?: TaskLedger;
+    captureLog?: CaptureLog;
+    auditLog?: AuditLog;
   }
 ): void {
-  const { client, config } = dependencies;
+  const { client, config, taskLedger, captureLog, auditLog } = dependencies;
+
+  server.registerTool(
+    "list_spaces",
+    {
+      title: "List Spaces",
+      description:
+        "List all Capacities spaces accessible with the configured token, including id, title and icon.",
+      inputSchema: {
+        refresh: z
+          .boolean()
+          .optional()
+          .describe("Set to true to bypass the metadata cache and refetch /spaces. Default: false.")
+      }
+    },
+    async ({ refresh }) =>
+      withRequestTrace("list_spaces", async (trace) => {
+        try {
+          const spacesResponse = await client.getSpaces({ refresh });
+          const markdown = renderSpacesMarkdown({
+            spaces: spacesResponse.spaces,
+            defaultSpaceId: config.defaultSpaceId
+          });
+
+          return {
+            content: toTextContent(markdown),
+            structuredContent: {
+              tool: "list_spaces",
+              rateLimit: summarizeRateLimitDelays(trace, client.getRateLimitQueueDepth()),
+              cache: summarizeCacheUsage(trace),
+              defaultSpaceId: config.defaultSpaceId ?? null,
+              spacesCount: spacesResponse.spaces.length,
+              spaces: spacesResponse.spaces.map((space) => ({
+                id: space.id,
+                title: space.title,
+                icon: space.icon ?? null
+              }))
+            }
+          };
+        } catch (error) {
+          return errorResult("list_spaces", error);
+        }
+      })
+  );
 
   server.registerTool(
     "get_space_info",
@@ -47,38 +178,142 @@ export function registerReadQueryTools(
           .string()
           .trim()
           .optional()
-          .describe("Optional UUID for the space. Falls back to CAPACITIES_SPACE_ID.")
+          .describe(
+            "Optional space UUID or title (case-insensitive). Falls back to CAPACITIES_SPACE_ID."
+          ),
+        refresh: z
+          .boolean()
+          .optional()
+          .describe(
+            "Set to true to bypass the metadata cache and refetch /spaces and /space-info. Default: false."
+          )
       }
     },
-    async ({ spaceId }) => {
-      try {
-        const resolvedSpaceId = resolveSpaceId(spaceId, config);
-        const [spacesResponse, spaceInfoResponse] = await Promise.all([
-          client.getSpaces(),
-          client.getSpaceInfo(resolvedSpaceId)
-        ]);
-        const selectedSpace = spacesResponse.spaces.find((space) => space.id === resolvedSpaceId);
-        const markdown = renderSpaceInfoMarkdown({
-          spaceId: resolvedSpaceId,
-          spaceTitle: selectedSpace?.title,
-          spacesCount: spacesResponse.spaces.length,
-          structures: spaceInfoResponse.structures
-        });
-
-        return {
-          content: toTextContent(markdown),
-          structuredContent: {
-            tool: "get_space_info",
+    async ({ spaceId, refresh }) =>
+      withRequestTrace("get_space_info", async (trace) => {
+        try {
+          const resolvedSpaceId = await client.resolveSpaceId(spaceId);
+          const [spacesResponse, spaceInfoResponse] = await Promise.all([
+            client.getSpaces({ refresh }),
+            client.getSpaceInfo(resolvedSpaceId, { refresh })
+          ]);
+          const selectedSpace = spacesResponse.spaces.find((space) => space.id === resolvedSpaceId);
+          const markdown = renderSpaceInfoMarkdown({
             spaceId: resolvedSpaceId,
-            spaceTitle: selectedSpace?.title ?? null,
+            spaceTitle: selectedSpace?.title,
             spacesCount: spacesResponse.spaces.length,
             structures: spaceInfoResponse.structures
-          }
-        };
-      } catch (error) {
-        return errorResult("get_space_info", error);
+          });
+
+          return {
+            content: toTextContent(markdown),
+            structuredContent: {
+              tool: "get_space_info",
+              rateLimit: summarizeRateLimitDelays(trace, client.getRateLimitQueueDepth()),
+              cache: summarizeCacheUsage(trace),
+              spaceId: resolvedSpaceId,
+              spaceTitle: selectedSpace?.title ?? null,
+              spacesCount: spacesResponse.spaces.length,
+              structures: spaceInfoResponse.structures
+            }
+          };
+        } catch (error) {
+          return errorResult("get_space_info", error);
+        }
+      })
+  );
+
+  server.registerTool(
+    "clear_cache",
+    {
+      title: "Clear Cache",
+      description:
+        "Drop cached /spaces, /space-info and /lookup responses so the next call refetches them. Writes already clear the cache of their space.",
+      inputSchema: {
+        spaceId: z
+          .string()
+          .trim()
+          .optional()
+          .describe(
+            "Optional space UUID or title (case-insensitive). Only clears that space's /space-info and /lookup entries. Omit to clear everything."
+          )
       }
-    }
+    },
+    async ({ spaceId }) =>
+      withRequestTrace("clear_cache", async () => {
+        try {
+          const resolvedSpaceId = spaceId ? await client.resolveSpaceId(spaceId) : undefined;
+          const cleared = client.invalidateCache(resolvedSpaceId);
+          const scope = resolvedSpaceId ? `space \`${resolvedSpaceId}\`` : "all spaces";
+          const markdown = [
+            "## Cache Cleared",
+            "",
+            `- Scope: ${scope}`,
+            `- Entries removed: ${cleared}`
+          ].join("\n");
+
+          return {
+            content: toTextContent(markdown),
+            structuredContent: {
+              tool: "clear_cache",
+              spaceId: resolvedSpaceId ?? null,
+              cleared
+            }
+          };
+        } catch (error) {
+          return errorResult("clear_cache", error);
+        }
+      })
+  );
+
+  server.registerTool(
+    "describe_structure",
+    {
+      title: "Describe Structure",
+      description:
+        "Describe one object type (structure) from /space-info: plural name, icon, color, property definitions and collections.",
+      inputSchema: {
+        structure: z
+          .string()
+          .trim()
+          .min(1)
+          .describe("Structure ID, title, or plural name (case-insensitive), e.g. 'RootPage' or 'Books'."),
+        spaceId: z
+          .string()
+          .trim()
+          .optional()
+          .describe(
+            "Optional space UUID or title (case-insensitive). Falls back to CAPACITIES_SPACE_ID."
+          ),
+        refresh: z
+          .boolean()
+          .optional()
+          .describe("Set to true to bypass the metadata cache and refetch /space-info. Default: false.")
+      }
+    },
+    async ({ structure, spaceId, refresh }) =>
+      withRequestTrace("describe_structure", async (trace) => {
+        try {
+          const resolvedSpaceId = await client.resolveSpaceId(spaceId);
+          const spaceInfoResponse = await client.getSpaceInfo(resolvedSpaceId, { refresh });
+          const description = describeStructure(
+            findStructure(structure, spaceInfoResponse.structures)
+          );
+
+          return {
+            content: toTextContent(renderStructureDescriptionMarkdown(resolvedSpaceId, description)),
+            structuredContent: {
+              tool: "describe_structure",
+              rateLimit: summarizeRateLimitDelays(trace, client.getRateLimitQueueDepth()),
+              cache: summarizeCacheUsage(trace),
+              spaceId: resolvedSpaceId,
+              structure: description
+            }
+          };
+        } catch (error) {
+          return errorResult("describe_structure", error);
+        }
+      })
   );
 
   server.registerTool(
@@ -92,7 +327,9 @@ export function registerReadQueryTools(
           .string()
           .trim()
           .optional()
-          .describe("Optional UUID for the space. Falls back to CAPACITIES_SPACE_ID."),
+          .describe(
+            "Optional space UUID or title (case-insensitive). Falls back to CAPACITIES_SPACE_ID."
+          ),
         text: z
           .string()
           .trim()
@@ -109,97 +346,268 @@ export function registerReadQueryTools(
           .string()
           .trim()
           .optional()
-          .describe("Optional date filter (YYYY-MM-DD or 'yesterday'). Not natively supported."),
+          .describe(
+            "Optional date filter (YYYY-MM-DD or an expression like 'yesterday', 'last friday', 'last week', 'Q3 2026'). Not natively supported."
+          ),
         dateFrom: z
           .string()
           .trim()
           .optional()
-          .describe("Optional range start (YYYY-MM-DD or 'yesterday'). Not natively supported."),
+          .describe(
+            "Optional range start (YYYY-MM-DD or an expression like 'yesterday', 'last friday', 'last week', 'Q3 2026'). Not natively supported."
+          ),
         dateTo: z
           .string()
           .trim()
           .optional()
-          .describe("Optional range end (YYYY-MM-DD or 'yesterday'). Not natively supported."),
+          .describe(
+            "Optional range end (YYYY-MM-DD or an expression like 'yesterday', 'last friday', 'last week', 'Q3 2026'). Not natively supported."
+          ),
+        timeZone: z
+          .string()
+          .trim()
+          .optional()
+          .describe(
+            "Optional IANA time zone (e.g. 'Europe/Berlin') for resolving dates. Defaults to CAPACITIES_TIMEZONE."
+          ),
+        ranking: z
+          .enum(SEARCH_RANKING_MODES)
+          .optional()
+          .describe(
+            "Result ordering: 'relevance' scores titles locally (exact, prefix, token overlap, typo-tolerant); 'upstream' keeps /lookup order. Default: relevance."
+          ),
         limit: z
           .number()
           .int()
           .min(1)
           .max(100)
           .optional()
-          .describe("Maximum entities to return after filtering. Default: 20.")
+          .describe("Maximum entities to return per page after filtering. Default: 20."),
+        cursor: z
+          .string()
+          .trim()
+          .optional()
+          .describe(
+            "Opaque nextCursor from a previous search_entities response. Repeat the same spaceId, text, type and ranking to fetch the next page."
+          )
       }
     },
-    async (input) => {
-      try {
-        const filters = normalizeSearchEntitiesFilters(input);
-        const resolvedSpaceId = resolveSpaceId(filters.spaceId, config);
+    async (input) =>
+      withRequestTrace("search_entities", async (trace) => {
+        try {
+          const filters = normalizeSearchEntitiesFilters(
+            input,
+            resolveDateContext(config, input.timeZone)
+          );
+          const resolvedSpaceId = await client.resolveSpaceId(filters.spaceId);
 
-        if (!filters.text) {
-          return unsupportedResult(
-            "search_entities",
-            "Capacities /lookup requires a non-empty text query. Date-only or type-only search is not supported by the public API.",
-            {
-              requestedFilters: filters,
-              supported: {
-                text: true,
-                type: "best-effort (via structureId/title mapping)",
-                date: false,
-                dateRange: false
+          if (!filters.text) {
+            return unsupportedResult(
+              "search_entities",
+              "Capacities /lookup requires a non-empty text query. Date-only or type-only search is not supported by the public API.",
+              {
+                requestedFilters: filters,
+                supported: {
+                  text: true,
+                  type: "best-effort (via structureId/title mapping)",
+                  date: false,
+                  dateRange: false
+                }
               }
-            }
-          );
-        }
+            );
+          }
 
-        const lookupResponse = await client.lookup(filters.text, resolvedSpaceId);
-        const notes: string[] = [];
-        let filteredResults = lookupResponse.results;
+          const cursor = trimToUndefined(input.cursor);
+          const cursorScope: SearchCursorScope = {
+            spaceId: resolvedSpaceId,
+            text: filters.text,
+            type: filters.type ?? null,
+            ranking: filters.ranking
+          };
+          const offset = cursor ? decodeSearchCursor(cursor, cursorScope) : 0;
+          const lookupResponse = await client.lookup(filters.text, resolvedSpaceId, {
+            cache: true,
+            refresh: !cursor
+          });
+          const notes: string[] = [];
+          let filteredResults = lookupResponse.results;
+          let structures: CapacitiesStructureInfo[] | undefined;
 
-        if (filters.type) {
-          const typeFilter = filters.type;
-          const spaceInfoResponse = await client.getSpaceInfo(resolvedSpaceId);
-          const allowedStructureIds = resolveStructureIdsByType(
-            typeFilter,
-            spaceInfoResponse.structures
-          );
-          filteredResults = filteredResults.filter((result) =>
-            matchesTypeFilter(result, typeFilter, allowedStructureIds)
-          );
-          if (!filteredResults.length) {
+          if (filters.type) {
+            const typeFilter = filters.type;
+            structures = (await client.getSpaceInfo(resolvedSpaceId)).structures;
+            const allowedStructureIds = resolveStructureIdsByType(typeFilter, structures);
+            filteredResults = filteredResults.filter((result) =>
+              matchesTypeFilter(result, typeFilter, allowedStructureIds)
+            );
+            if (!filteredResults.length) {
+              notes.push(
+                `No results matched type filter \`${filters.type}\` using structure metadata from \`/space-info\`.`
+              );
+            }
+          }
+
+          if (filters.date || filters.dateFrom || filters.dateTo) {
             notes.push(
-              `No results matched type filter \`${filters.type}\` using structure metadata from \`/space-info\`.`
+              "Date filters are accepted for compatibility but not applied because /lookup does not return entity date fields."
             );
           }
-        }
 
-        if (filters.date || filters.dateFrom || filters.dateTo) {
-          notes.push(
-            "Date filters are accepted for compatibility but not applied because /lookup does not return entity date fields."
+          const rankedResults = rankLookupResults(filteredResults, filters.text, filters.ranking);
+          const pageResults = rankedResults.slice(offset, offset + filters.limit);
+          const limitedResults = enrichLookupResults(
+            pageResults,
+            resolvedSpaceId,
+            structures ?? (await loadStructuresForEnrichment(client, resolvedSpaceId, notes))
           );
-        }
+          const nextOffset = offset + limitedResults.length;
+          const nextCursor =
+            nextOffset < rankedResults.length
+              ? encodeSearchCursor(cursorScope, nextOffset)
+              : null;
+          const markdown = renderSearchEntitiesMarkdown({
+            filters,
+            results: limitedResults,
+            totalBeforeLimit: filteredResults.length,
+            offset,
+            nextCursor,
+            notes
+          });
 
-        const limitedResults = filteredResults.slice(0, filters.limit);
-        const markdown = renderSearchEntitiesMarkdown({
-          filters,
-          results: limitedResults,
-          totalBeforeLimit: filteredResults.length,
-          notes
-        });
+          return {
+            content: toTextContent(markdown),
+            structuredContent: {
+              tool: "search_entities",
+              rateLimit: summarizeRateLimitDelays(trace, client.getRateLimitQueueDepth()),
+              cache: summarizeCacheUsage(trace),
+              query: filters,
+              totalResultsBeforeLimit: filteredResults.length,
+              returnedResults: limitedResults.length,
+              offset,
+              nextCursor,
+              unsupportedNotes: notes,
+              results: limitedResults
+            }
+          };
+        } catch (error) {
+          return errorResult("search_entities", error);
+        }
+      })
+  );
 
-        return {
-          content: toTextContent(markdown),
-          structuredContent: {
-            tool: "search_entities",
-            query: filters,
-            totalResultsBeforeLimit: filteredResults.length,
-            returnedResults: limitedResults.length,
-            unsupportedNotes: notes,
-            results: limitedResults
-          }
-        };
-      } catch (error) {
-        return errorResult("search_entities", error);
+  server.registerTool(
+    "search_entities_batch",
+    {
+      title: "Search Entities (Batch)",
+      description:
+        "Run several /lookup title searches concurrently in one call. Returns per-query results, a merged list deduplicated by entity id, and per-query errors without failing the whole batch.",
+      inputSchema: {
+        spaceId: z
+          .string()
+          .trim()
+          .optional()
+          .describe(
+            "Optional space UUID or title (case-insensitive). Falls back to CAPACITIES_SPACE_ID."
+          ),
+        queries: z
+          .array(z.string().trim().min(1))
+          .min(1)
+          .max(MAX_BATCH_QUERIES)
+          .describe(`Title queries to look up (1-${MAX_BATCH_QUERIES}). Duplicates are searched once.`),
+        type: z
+          .string()
+          .trim()
+          .optional()
+          .describe("Optional type hint (structure ID or structure title) applied to every query."),
+        limit: z
+          .number()
+          .int()
+          .min(1)
+          .max(100)
+          .optional()
+          .describe("Maximum entities to return per query after filtering. Default: 20.")
       }
-    }
+    },
+    async (input) =>
+      withRequestTrace("search_entities_batch", async (trace) => {
+        try {
+          const filters = normalizeSearchBatchFilters(input);
+          const resolvedSpaceId = await client.resolveSpaceId(filters.spaceId);
+          const notes: string[] = [];
+          const structures = filters.type
+            ? (await client.getSpaceInfo(resolvedSpaceId)).structures
+            : await loadStructuresForEnrichment(client, resolvedSpaceId, notes);
+          const allowedStructureIds = filters.type
+            ? resolveStructureIdsByType(filters.type, structures)
+            : undefined;
+
+          const settled = await Promise.allSettled(
+            filters.queries.map((text) => client.lookup(text, resolvedSpaceId))
+          );
+          const queryResults = settled.map((outcome, index): BatchQueryResult => {
+            const text = filters.queries[index];
+            if (outcome.status === "rejected") {
+              const normalizedError = normalizeCapacitiesError(outcome.reason);
+              return {
+                text,
+                ok: false,
+                error: {
+                  code: normalizedError.code,
+                  message: normalizedError.message,
+                  status: normalizedError.status ?? null,
+                  actionableMessage: normalizedError.actionableMessage
+                }
+              };
+            }
+
+            const typeFilter = filters.type;
+            const filteredResults =
+              typeFilter && allowedStructureIds
+                ? outcome.value.results.filter((result) =>
+                    matchesTypeFilter(result, typeFilter, allowedStructureIds)
+                  )
+                : outcome.value.results;
+            const limitedResults = enrichLookupResults(
+              filteredResults.slice(0, filters.limit),
+              resolvedSpaceId,
+              structures
+            );
+            return {
+              text,
+              ok: true,
+              totalResultsBeforeLimit: filteredResults.length,
+              returnedResults: limitedResults.length,
+              results: limitedResults
+            };
+          });
+
+          const merged = mergeBatchResults(queryResults);
+          const failedQueries = queryResults.filter((result) => !result.ok).length;
+          const markdown = renderSearchBatchMarkdown({ filters, queryResults, merged, notes });
+
+          return {
+            content: toTextContent(markdown),
+            structuredContent: {
+              tool: "search_entities_batch",
+              rateLimit: summarizeRateLimitDelays(trace, client.getRateLimitQueueDepth()),
+              cache: summarizeCacheUsage(trace),
+              query: { ...filters, spaceId: resolvedSpaceId },
+              summary: {
+                queries: queryResults.length,
+                succeeded: queryResults.length - failedQueries,
+                failed: failedQueries,
+                uniqueEntities: merged.length
+              },
+              queries: queryResults,
+              merged,
+              notes
+            },
+            ...(failedQueries === queryResults.length ? { isError: true } : {})
+          };
+        } catch (error) {
+          return errorResult("search_entities_batch", error);
+        }
+      })
   );
 
   server.registerTool(
@@ -223,7 +631,9 @@ export function registerReadQueryTools(
           .string()
           .trim()
           .optional()
-          .describe("Optional UUID for the space. Falls back to CAPACITIES_SPACE_ID.")
+          .describe(
+            "Optional space UUID or title (case-insensitive). Falls back to CAPACITIES_SPACE_ID."
+          )
       }
     },
     async ({ entityId, structureId, spaceId }) =>
@@ -246,13 +656,15 @@ export function registerReadQueryTools(
     {
       title: "List Tasks",
       description:
-        "Return a deterministic unsupported response. Capacities public API does not expose task listing.",
+        "List tasks from the local task ledger (CAPACITIES_TASK_LEDGER=true). Without the ledger, returns a deterministic unsupported response because Capacities public API does not expose task listing.",
       inputSchema: {
         spaceId: z
           .string()
           .trim()
           .optional()
-          .describe("Optional UUID for the space. Falls back to CAPACITIES_SPACE_ID."),
+          .describe(
+            "Optional space UUID or title (case-insensitive). Falls back to CAPACITIES_SPACE_ID."
+          ),
         status: z
           .enum(["open", "completed", "all"])
           .optional()
@@ -261,49 +673,269 @@ export function registerReadQueryTools(
           .string()
           .trim()
           .optional()
-          .describe("Optional date filter (YYYY-MM-DD or 'yesterday')."),
+          .describe(
+            "Optional date filter (YYYY-MM-DD or an expression like 'yesterday', 'last friday', 'last week', 'Q3 2026'). Matches the due date, or the creation day when no due date is set."
+          ),
         dateFrom: z
           .string()
           .trim()
           .optional()
-          .describe("Optional range start (YYYY-MM-DD or 'yesterday')."),
+          .describe(
+            "Optional range start (YYYY-MM-DD or an expression like 'yesterday', 'last friday', 'last week', 'Q3 2026')."
+          ),
         dateTo: z
           .string()
           .trim()
           .optional()
-          .describe("Optional range end (YYYY-MM-DD or 'yesterday').")
+          .describe(
+            "Optional range end (YYYY-MM-DD or an expression like 'yesterday', 'last friday', 'last week', 'Q3 2026')."
+          ),
+        timeZone: z
+          .string()
+          .trim()
+          .optional()
+          .describe(
+            "Optional IANA time zone (e.g. 'Europe/Berlin') for resolving dates. Defaults to CAPACITIES_TIMEZONE."
+          )
+      }
+    },
+    async (input) =>
+      withRequestTrace("list_tasks", async () => {
+        try {
+          const filters = normalizeListTasksFilters(
+            input,
+            resolveDateContext(config, input.timeZone)
+          );
+          if (!taskLedger) {
+            return unsupportedResult(
+              "list_tasks",
+              "Capacities public API does not provide a documented endpoint for listing tasks or filtering by task status/date.",
+              {
+                requestedFilters: filters,
+                availableEndpoints: ["/spaces", "/space-info", "/lookup", "/save-weblink", "/save-to-daily-note"],
+                emulation:
+                  "Set CAPACITIES_TASK_LEDGER=true to emulate tasks as daily-note checkboxes tracked in a local ledger."
+              }
+            );
+          }
+
+          const resolvedSpaceId = await client.resolveSpaceId(filters.spaceId);
+          const tasks = (await taskLedger.list()).filter(
+            (task) => task.spaceId === resolvedSpaceId && matchesTaskFilters(task, filters)
+          );
+          const markdown = renderTasksMarkdown({ filters, tasks });
+
+          return {
+            content: toTextContent(markdown),
+            structuredContent: {
+              tool: "list_tasks",
+              emulated: true,
+              spaceId: resolvedSpaceId,
+              query: filters,
+              totalTasks: tasks.length,
+              tasks
+            }
+          };
+        } catch (error) {
+          return errorResult("list_tasks", error);
+        }
+      })
+  );
+
+  server.registerTool(
+    "list_recent_captures",
+    {
+      title: "List Recent Captures",
+      description:
+        "List weblinks and daily-note entries this server saved to Capacities, from the local capture history. Newest first.",
+      inputSchema: {
+        spaceId: z
+          .string()
+          .trim()
+          .optional()
+          .describe("Optional space UUID or title (case-insensitive). Default: all spaces."),
+        kind: z
+          .enum(["weblink", "daily_note"])
+          .optional()
+          .describe("Optional capture kind filter."),
+        tag: z
+          .string()
+          .trim()
+          .optional()
+          .describe("Optional weblink tag filter (case-insensitive)."),
+        date: z
+          .string()
+          .trim()
+          .optional()
+          .describe(
+            "Optional capture day (YYYY-MM-DD or an expression like 'yesterday', 'last friday', 'last week', 'Q3 2026')."
+          ),
+        dateFrom: z
+          .string()
+          .trim()
+          .optional()
+          .describe(
+            "Optional range start (YYYY-MM-DD or an expression like 'yesterday', 'last friday', 'last week', 'Q3 2026')."
+          ),
+        dateTo: z
+          .string()
+          .trim()
+          .optional()
+          .describe(
+            "Optional range end (YYYY-MM-DD or an expression like 'yesterday', 'last friday', 'last week', 'Q3 2026')."
+          ),
+        timeZone: z
+          .string()
+          .trim()
+          .optional()
+          .describe(
+            "Optional IANA time zone (e.g. 'Europe/Berlin') for resolving dates. Defaults to CAPACITIES_TIMEZONE."
+          ),
+        limit: z
+          .number()
+          .int()
+          .min(1)
+          .max(100)
+          .optional()
+          .describe("Maximum captures to return. Default: 20.")
+      }
+    },
+    async (input) =>
+      withRequestTrace("list_recent_captures", async () => {
+        try {
+          const filters = normalizeListCapturesFilters(
+            input,
+            resolveDateContext(config, input.timeZone)
+          );
+          if (!captureLog) {
+            return unsupportedResult(
+              "list_recent_captures",
+              "Capture history is disabled, so there is no local record of saved captures.",
+              {
+                requestedFilters: filters,
+                emulation: "Set CAPACITIES_CAPTURE_LOG=true (the default) to record captures."
+              }
+            );
+          }
+
+          const spaceId = filters.spaceId ? await client.resolveSpaceId(filters.spaceId) : undefined;
+          const captures = (await captureLog.list())
+            .filter((capture) => matchesCaptureFilters(capture, { ...filters, spaceId }))
+            .reverse();
+          const limitedCaptures = captures.slice(0, filters.limit);
+          const markdown = renderCapturesMarkdown({
+            filters,
+            captures: limitedCaptures,
+            totalBeforeLimit: captures.length
+          });
+
+          return {
+            content: toTextContent(markdown),
+            structuredContent: {
+              tool: "list_recent_captures",
+              query: { ...filters, spaceId: spaceId ?? null },
+              totalCapturesBeforeLimit: captures.length,
+              returnedCaptures: limitedCaptures.length,
+              captures: limitedCaptures
+            }
+          };
+        } catch (error) {
+          return errorResult("list_recent_captures", error);
+        }
+      })
+  );
+
+  server.registerTool(
+    "get_audit_log",
+    {
+      title: "Get Audit Log",
+      description:
+        "List recent outbound Capacities API requests from the local audit log (tool, endpoint, space, redacted body, status, latency). Newest first.",
+      inputSchema: {
+        tool: z
+          .string()
+          .trim()
+          .optional()
+          .describe("Optional originating MCP tool name, e.g. 'save_weblink'."),
+        endpoint: z
+          .enum(["/spaces", "/space-info", "/lookup", "/save-weblink", "/save-to-daily-note"])
+          .optional()
+          .describe("Optional Capacities endpoint filter."),
+        outcome: z
+          .enum(AUDIT_OUTCOMES)
+          .optional()
+          .describe("Optional outcome filter: 'success' or 'error'."),
+        limit: z
+          .number()
+          .int()
+          .min(1)
+          .max(MAX_AUDIT_LIMIT)
+          .optional()
+          .describe(`Maximum entries to return. Default: ${DEFAULT_LIMIT}.`)
       }
     },
     async (input) => {
       try {
-        const filters = normalizeListTasksFilters(input);
-        return unsupportedResult(
-          "list_tasks",
-          "Capacities public API does not provide a documented endpoint for listing tasks or filtering by task status/date.",
-          {
-            requestedFilters: filters,
-            availableEndpoints: ["/spaces", "/space-info", "/lookup", "/save-weblink", "/save-to-daily-note"]
+        const filters: AuditLogFilters = {
+          tool: trimToUndefined(input.tool),
+          endpoint: input.endpoint,
+          outcome: input.outcome,
+          limit: input.limit ?? DEFAULT_LIMIT
+        };
+        if (!auditLog) {
+          return unsupportedResult(
+            "get_audit_log",
+            "The audit log is disabled, so outbound requests are not recorded.",
+            {
+              requestedFilters: filters,
+              emulation: "Set CAPACITIES_AUDIT_LOG=true (the default) to record requests."
+            }
+          );
+        }
+
+        const entries = (await auditLog.list())
+          .filter((entry) => matchesAuditFilters(entry, filters))
+          .reverse();
+        const limitedEntries = entries.slice(0, filters.limit);
+
+        return {
+          content: toTextContent(
+            renderAuditLogMarkdown({
+              filters,
+              entries: limitedEntries,
+              totalBeforeLimit: entries.length
+            })
+          ),
+          structuredContent: {
+            tool: "get_audit_log",
+            query: filters,
+            totalEntriesBeforeLimit: entries.length,
+            returnedEntries: limitedEntries.length,
+            entries: limitedEntries
           }
-        );
+        };
       } catch (error) {
-        return errorResult("list_tasks", error);
+        return errorResult("get_audit_log", error);
       }
     }
   );
 }
 
-function normalizeSearchEntitiesFilters(input: {
-  spaceId?: string;
-  text?: string;
-  type?: string;
-  date?: string;
-  dateFrom?: string;
-  dateTo?: string;
-  limit?: number;
-}): SearchEntitiesFilters {
-  const date = input.date ? normalizeDateInput(input.date) : undefined;
-  const dateFrom = input.dateFrom ? normalizeDateInput(input.dateFrom) : undefined;
-  const dateTo = input.dateTo ? normalizeDateInput(input.dateTo) : undefined;
+function normalizeSearchEntitiesFilters(
+  input: {
+    spaceId?: string;
+    text?: string;
+    type?: string;
+    date?: string;
+    dateFrom?: string;
+    dateTo?: string;
+    limit?: number;
+    timeZone?: string;
+    ranking?: SearchRankingMode;
+  },
+  dateContext: ResolvedDateContext
+): SearchEntitiesFilters {
+  const { date, dateFrom, dateTo } = resolveDateFilters(input, dateContext);
 
   validateDateInputs(date, dateFrom, dateTo);
 
@@ -314,20 +946,80 @@ function normalizeSearchEntitiesFilters(input: {
     date,
     dateFrom,
     dateTo,
+    timeZone: dateContext.timeZone,
+    ranking: input.ranking ?? "relevance",
     limit: input.limit ?? DEFAULT_LIMIT
   };
 }
 
-function normalizeListTasksFilters(input: {
+function normalizeSearchBatchFilters(input: {
   spaceId?: string;
-  status?: "open" | "completed" | "all";
-  date?: string;
-  dateFrom?: string;
-  dateTo?: string;
-}): ListTasksFilters {
-  const date = input.date ? normalizeDateInput(input.date) : undefined;
-  const dateFrom = input.dateFrom ? normalizeDateInput(input.dateFrom) : undefined;
-  const dateTo = input.dateTo ? normalizeDateInput(input.dateTo) : undefined;
+  queries: string[];
+  type?: string;
+  limit?: number;
+}): SearchBatchFilters {
+  const queries: string[] = [];
+  const seen = new Set<string>();
+  for (const query of input.queries) {
+    const text = trimToUndefined(query);
+    if (!text) {
+      throw createValidationError("queries must contain non-empty strings.");
+    }
+    const key = text.toLowerCase();
+    if (!seen.has(key)) {
+      seen.add(key);
+      queries.push(text);
+    }
+  }
+
+  return {
+    spaceId: trimToUndefined(input.spaceId),
+    queries,
+    type: trimToUndefined(input.type),
+    limit: input.limit ?? DEFAULT_LIMIT
+  };
+}
+
+function normalizeListCapturesFilters(
+  input: {
+    spaceId?: string;
+    kind?: CaptureKind;
+    tag?: string;
+    date?: string;
+    dateFrom?: string;
+    dateTo?: string;
+    limit?: number;
+    timeZone?: string;
+  },
+  dateContext: ResolvedDateContext
+): ListCapturesFilters {
+  const { date, dateFrom, dateTo } = resolveDateFilters(input, dateContext);
+  validateDateInputs(date, dateFrom, dateTo);
+
+  return {
+    spaceId: trimToUndefined(input.spaceId),
+    kind: input.kind,
+    tag: trimToUndefined(input.tag),
+    date,
+    dateFrom,
+    dateTo,
+    timeZone: dateContext.timeZone,
+    limit: input.limit ?? DEFAULT_LIMIT
+  };
+}
+
+function normalizeListTasksFilters(
+  input: {
+    spaceId?: string;
+    status?: "open" | "completed" | "all";
+    date?: string;
+    dateFrom?: string;
+    dateTo?: string;
+    timeZone?: string;
+  },
+  dateContext: ResolvedDateContext
+): ListTasksFilters {
+  const { date, dateFrom, dateTo } = resolveDateFilters(input, dateContext);
   validateDateInputs(date, dateFrom, dateTo);
 
   return {
@@ -335,7 +1027,8 @@ function normalizeListTasksFilters(input: {
     status: input.status ?? "all",
     date,
     dateFrom,
-    dateTo
+    dateTo,
+    timeZone: dateContext.timeZone
   };
 }
 
@@ -355,25 +1048,79 @@ function validateDateInputs(
   }
 }
 
-function resolveStructureIdsByType(
-  typeFilter: string,
-  structures: CapacitiesStructureInfo[]
-): Set<string> {
-  const normalizedType = typeFilter.toLowerCase();
-  const structureIds = new Set<string>();
-
-  for (const structure of structures) {
-    const titleMatches = structure.title.toLowerCase() === normalizedType;
-    const idMatches = structure.id.toLowerCase() === normalizedType;
-    const pluralName = getOptionalStringField(structure, "pluralName");
-    const pluralMatches = pluralName?.toLowerCase() === normalizedType;
-
-    if (titleMatches || idMatches || pluralMatches) {
-      structureIds.add(structure.id);
+function matchesTaskFilters(task: TaskRecord, filters: ListTasksFilters): boolean {
+  if (filters.status && filters.status !== "all" && task.status !== filters.status) {
+    return false;
+  }
+
+  const taskDate = task.dueDate ?? task.createdOn;
+  if (filters.date) {
+    return taskDate === filters.date;
+  }
+  if (filters.dateFrom && filters.dateTo) {
+    return taskDate >= filters.dateFrom && taskDate <= filters.dateTo;
+  }
+  return true;
+}
+
+function matchesAuditFilters(entry: AuditRecord, filters: AuditLogFilters): boolean {
+  return (
+    (!filters.tool || entry.tool === filters.tool) &&
+    (!filters.endpoint || entry.endpoint === filters.endpoint) &&
+    (!filters.outcome || entry.outcome === filters.outcome)
+  );
+}
+
+function matchesCaptureFilters(capture: CaptureRecord, filters: ListCapturesFilters): boolean {
+  if (filters.spaceId && capture.spaceId !== filters.spaceId) {
+    return false;
+  }
+  if (filters.kind && capture.kind !== filters.kind) {
+    return false;
+  }
+  if (filters.tag) {
+    const tag = filters.tag.toLowerCase();
+    if (!capture.summary.tags?.some((captureTag) => captureTag.toLowerCase() === tag)) {
+      return false;
     }
   }
 
-  return structureIds;
+  const captureDate = toIsoLocalDate(new Date(capture.timestamp), filters.timeZone);
+  if (filters.date) {
+    return captureDate === filters.date;
+  }
+  if (filters.dateFrom && filters.dateTo) {
+    return captureDate >= filters.dateFrom && captureDate <= filters.dateTo;
+  }
+  return true;
+}
+
+function findStructure(
+  query: string,
+  structures: CapacitiesStructureInfo[]
+): CapacitiesStructureInfo {
+  const trimmedQuery = query.trim();
+  const exactMatch = structures.find((structure) => structure.id === trimmedQuery);
+  if (exactMatch) {
+    return exactMatch;
+  }
+
+  const matchingIds = resolveStructureIdsByType(trimmedQuery, structures);
+  const matches = structures.filter((structure) => matchingIds.has(structure.id));
+  if (matches.length === 1) {
+    return matches[0];
+  }
+
+  if (matches.length > 1) {
+    throw createValidationError(
+      `Structure "${trimmedQuery}" is ambiguous. Matching structure IDs: ${matches.map((structure) => structure.id).join(", ")}.`
+    );
+  }
+
+  const available = structures.map((structure) => `${structure.title} (${structure.id})`).join(", ");
+  throw createValidationError(
+    `Structure "${trimmedQuery}" was not found. Available structures: ${available || "none"}.`
+  );
 }
 
 function matchesTypeFilter(
@@ -388,7 +1135,32 @@ function matchesTypeFilter(
   return result.structureId.toLowerCase() === typeFilter.toLowerCase();
 }
 
-function renderSpaceInfoMarkdown(payload: {
+function renderSpacesMarkdown(payload: {
+  spaces: CapacitiesSpace[];
+  defaultSpaceId?: string;
+}): string {
+  const spaceLines = payload.spaces.length
+    ? payload.spaces
+        .map((space) => {
+          const icon = space.icon ? `${space.icon} ` : "";
+          const defaultMarker = space.id === payload.defaultSpaceId ? " _(default)_" : "";
+          return `- ${icon}**${space.title}**${defaultMarker}  \n  ID: \`${space.id}\``;
+        })
+        .join("\n")
+    : "- No spaces returned by Capacities API.";
+
+  return [
+    "## Spaces",
+    "",
+    `- Accessible spaces in token scope: ${payload.spaces.length}`,
+    `- Default space ID: ${payload.defaultSpaceId ? `\`${payload.defaultSpaceId}\`` : "_Not configured_"}`,
+    "",
+    "### Spaces",
+    spaceLines
+  ].join("\n");
+}
+
+export function renderSpaceInfoMarkdown(payload: {
   spaceId: string;
   spaceTitle?: string;
   spacesCount: number;
@@ -413,17 +1185,55 @@ function renderSpaceInfoMarkdown(payload: {
   ].join("\n");
 }
 
+function renderStructureDescriptionMarkdown(
+  spaceId: string,
+  description: StructureDescription
+): string {
+  const propertyLines = description.properties.length
+    ? description.properties.map((property) => {
+        const kind = [property.type, property.dataType].filter(Boolean).join(" / ");
+        return `- ${property.name ?? "_Unnamed_"} (\`${property.id}\`)${kind ? ` - ${kind}` : ""}`;
+      })
+    : ["- No property definitions returned."];
+  const collectionLines = description.collections.length
+    ? description.collections.map(
+        (collection) => `- ${collection.title ?? "_Untitled_"} (\`${collection.id}\`)`
+      )
+    : ["- No collections returned."];
+
+  return [
+    `## Structure: ${renderStructureLabel(description)}`,
+    "",
+    `- Space ID: \`${spaceId}\``,
+    `- Plural name: ${description.pluralName ?? "_Not provided_"}`,
+    `- Color: ${description.color ?? "_Not provided_"}`,
+    `- Other fields: ${
+      description.otherFields.length
+        ? description.otherFields.map((field) => `\`${field}\``).join(", ")
+        : "_None_"
+    }`,
+    "",
+    "### Properties",
+    ...propertyLines,
+    "",
+    "### Collections",
+    ...collectionLines
+  ].join("\n");
+}
+
 function renderSearchEntitiesMarkdown(payload: {
   filters: SearchEntitiesFilters;
-  results: CapacitiesLookupResult[];
+  results: Array<RankedLookupResult & EntityEnrichment>;
   totalBeforeLimit: number;
+  offset: number;
+  nextCursor: string | null;
   notes: string[];
 }): string {
   const resultsLines = payload.results.length
     ? payload.results
         .map(
           (result) =>
-            `- **${result.title}**  \n  ID: \`${result.id}\`  \n  Structure: \`${result.structureId}\``
+            `- ${highlightMatches(result.title, result.matchedSpans)}  \n  ID: \`${result.id}\`  \n  Type: ${renderStructureLabel(result.structure)}  \n  Link: [Open in Capacities](${result.link})  \n  Score: ${result.score}`
         )
         .join("\n")
     : "- No matching entities.";
@@ -438,8 +1248,11 @@ function renderSearchEntitiesMarkdown(payload: {
     `- Text query: ${payload.filters.text ? `\`${payload.filters.text}\`` : "_Not provided_"}`,
     `- Type filter: ${payload.filters.type ? `\`${payload.filters.type}\`` : "_Not provided_"}`,
     `- Date filter: ${renderDateFilter(payload.filters)}`,
+    `- Ranking: ${payload.filters.ranking}`,
     `- Matches before limit: ${payload.totalBeforeLimit}`,
     `- Returned after limit (${payload.filters.limit}): ${payload.results.length}`,
+    `- Offset: ${payload.offset}`,
+    `- Next cursor: ${payload.nextCursor ? `\`${payload.nextCursor}\`` : "_None (last page)_"}`,
     "",
     "### Results",
     resultsLines,
@@ -449,12 +1262,232 @@ function renderSearchEntitiesMarkdown(payload: {
   ].join("\n");
 }
 
-function renderDateFilter(filters: SearchEntitiesFilters): string {
+function encodeSearchCursor(scope: SearchCursorScope, offset: number): string {
+  const payload = { v: SEARCH_CURSOR_VERSION, ...scope, offset };
+  return Buffer.from(JSON.stringify(payload), "utf8").toString("base64url");
+}
+
+function decodeSearchCursor(cursor: string, scope: SearchCursorScope): number {
+  let payload: Partial<SearchCursorScope & { v: number; offset: number }> | null;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw createValidationError("cursor is malformed. Use nextCursor from a previous response.");
+  }
+
+  if (
+    typeof payload !== "object" ||
+    payload === null ||
+    payload.v !== SEARCH_CURSOR_VERSION ||
+    typeof payload.offset !== "number" ||
+    !Number.isInteger(payload.offset) ||
+    payload.offset < 0
+  ) {
+    throw createValidationError("cursor is malformed. Use nextCursor from a previous response.");
+  }
+
+  if (
+    payload.spaceId !== scope.spaceId ||
+    payload.text !== scope.text ||
+    payload.type !== scope.type ||
+    payload.ranking !== scope.ranking
+  ) {
+    throw createValidationError(
+      "cursor was issued for a different space, text, type or ranking. Repeat the original filters or search again without a cursor."
+    );
+  }
+
+  return payload.offset;
+}
+
+async function loadStructuresForEnrichment(
+  client: CapacitiesApiClient,
+  spaceId: string,
+  notes: string[]
+): Promise<CapacitiesStructureInfo[]> {
+  try {
+    return (await client.getSpaceInfo(spaceId)).structures;
+  } catch (error) {
+    notes.push(
+      `Structure metadata from \`/space-info\` is unavailable (${normalizeCapacitiesError(error).message}); results show raw structure IDs.`
+    );
+    return [];
+  }
+}
+
+function mergeBatchResults(queryResults: BatchQueryResult[]): MergedLookupResult[] {
+  const merged = new Map<string, MergedLookupResult>();
+
+  for (const queryResult of queryResults) {
+    if (!queryResult.ok) {
+      continue;
+    }
+    for (const result of queryResult.results) {
+      const existing = merged.get(result.id);
+      if (existing) {
+        if (!existing.matchedQueries.includes(queryResult.text)) {
+          existing.matchedQueries.push(queryResult.text);
+        }
+      } else {
+        merged.set(result.id, { ...result, matchedQueries: [queryResult.text] });
+      }
+    }
+  }
+
+  return [...merged.values()];
+}
+
+function renderSearchBatchMarkdown(payload: {
+  filters: SearchBatchFilters;
+  queryResults: BatchQueryResult[];
+  merged: MergedLookupResult[];
+  notes: string[];
+}): string {
+  const queryLines = payload.queryResults.map((queryResult) => {
+    if (!queryResult.ok) {
+      return `- \`${queryResult.text}\`: error \`${queryResult.error.code}\` - ${queryResult.error.message}`;
+    }
+    if (!queryResult.results.length) {
+      return `- \`${queryResult.text}\`: no matches`;
+    }
+    const titles = queryResult.results.map((result) => `**${result.title}**`).join(", ");
+    return `- \`${queryResult.text}\`: ${queryResult.totalResultsBeforeLimit} match(es) - ${titles}`;
+  });
+
+  const mergedLines = payload.merged.length
+    ? payload.merged
+        .map((result) => {
+          const matched = result.matchedQueries.map((text) => `\`${text}\``).join(", ");
+          return `- **${result.title}**  \n  ID: \`${result.id}\`  \n  Type: ${renderStructureLabel(result.structure)}  \n  Link: [Open in Capacities](${result.link})  \n  Matched: ${matched}`;
+        })
+        .join("\n")
+    : "- No matching entities.";
+
+  return [
+    "## Search Entities (Batch)",
+    "",
+    `- Queries: ${payload.queryResults.length}`,
+    `- Failed queries: ${payload.queryResults.filter((result) => !result.ok).length}`,
+    `- Type filter: ${payload.filters.type ? `\`${payload.filters.type}\`` : "_Not provided_"}`,
+    `- Unique entities: ${payload.merged.length}`,
+    "",
+    "### Per Query",
+    ...queryLines,
+    "",
+    "### Merged Results",
+    mergedLines,
+    ...(payload.notes.length ? ["", "### Notes", ...payload.notes.map((note) => `- ${note}`)] : [])
+  ].join("\n");
+}
+
+function renderCapturesMarkdown(payload: {
+  filters: ListCapturesFilters;
+  captures: CaptureRecord[];
+  totalBeforeLimit: number;
+}): string {
+  const captureLines = payload.captures.length
+    ? payload.captures
+        .map((capture) => {
+          const heading =
+            capture.kind === "weblink"
+              ? `**${capture.summary.title ?? capture.summary.url ?? "Weblink"}**`
+              : "**Daily note entry**";
+          const details = [
+            `${capture.timestamp} · \`${capture.kind}\` · space \`${capture.spaceId}\``,
+            capture.summary.url ? `URL: ${capture.summary.url}` : "",
+            capture.summary.tags?.length
+              ? `Tags: ${capture.summary.tags.map((tag) => `\`${tag}\``).join(", ")}`
+              : "",
+            capture.summary.mdTextPreview
+              ? `Text: ${capture.summary.mdTextPreview.replace(/\s+/g, " ")}`
+              : ""
+          ].filter((line) => line.length > 0);
+          return `- ${heading}  \n  ${details.join("  \n  ")}`;
+        })
+        .join("\n")
+    : "- No matching captures.";
+
+  return [
+    "## Recent Captures",
+    "",
+    `- Kind filter: ${payload.filters.kind ? `\`${payload.filters.kind}\`` : "_Not provided_"}`,
+    `- Tag filter: ${payload.filters.tag ? `\`${payload.filters.tag}\`` : "_Not provided_"}`,
+    `- Date filter: ${renderDateFilter(payload.filters)}`,
+    `- Matches before limit: ${payload.totalBeforeLimit}`,
+    `- Returned after limit (${payload.filters.limit}): ${payload.captures.length}`,
+    "",
+    "### Captures",
+    captureLines
+  ].join("\n");
+}
+
+function renderAuditLogMarkdown(payload: {
+  filters: AuditLogFilters;
+  entries: AuditRecord[];
+  totalBeforeLimit: number;
+}): string {
+  const entryLines = payload.entries.length
+    ? payload.entries
+        .map((entry) => {
+          const status = entry.status !== null ? ` ${entry.status}` : "";
+          const error = entry.errorCode ? ` (\`${entry.errorCode}\`)` : "";
+          const space = entry.spaceId ? ` · space \`${entry.spaceId}\`` : "";
+          return `- ${entry.timestamp} · \`${entry.tool ?? "no tool"}\` · ${entry.method} ${entry.endpoint} · ${entry.outcome}${status}${error} · ${entry.latencyMs} ms${space}`;
+        })
+        .join("\n")
+    : "- No matching requests.";
+
+  return [
+    "## Audit Log",
+    "",
+    `- Tool filter: ${payload.filters.tool ? `\`${payload.filters.tool}\`` : "_Not provided_"}`,
+    `- Endpoint filter: ${payload.filters.endpoint ? `\`${payload.filters.endpoint}\`` : "_Not provided_"}`,
+    `- Outcome filter: ${payload.filters.outcome ?? "_Not provided_"}`,
+    `- Matches before limit: ${payload.totalBeforeLimit}`,
+    `- Returned after limit (${payload.filters.limit}): ${payload.entries.length}`,
+    "",
+    "### Requests",
+    entryLines
+  ].join("\n");
+}
+
+function renderTasksMarkdown(payload: { filters: ListTasksFilters; tasks: TaskRecord[] }): string {
+  const taskLines = payload.tasks.length
+    ? payload.tasks
+        .map((task) => {
+          const checkbox = task.status === "completed" ? "[x]" : "[ ]";
+          const due = task.dueDate ? ` (due ${task.dueDate})` : "";
+          return `- ${checkbox} **${task.title}**${due}  \n  ID: \`${task.id}\`  \n  Created on: ${task.createdOn}`;
+        })
+        .join("\n")
+    : "- No matching tasks.";
+
+  return [
+    "## Tasks",
+    "",
+    `- Status filter: \`${payload.filters.status ?? "all"}\``,
+    `- Date filter: ${renderDateFilter(payload.filters)}`,
+    `- Matching tasks: ${payload.tasks.length}`,
+    "",
+    "### Tasks",
+    taskLines,
+    "",
+    "_Tasks are tracked in the local task ledger; checkboxes live in Capacities daily notes._"
+  ].join("\n");
+}
+
+function renderDateFilter(filters: {
+  date?: string;
+  dateFrom?: string;
+  dateTo?: string;
+  timeZone?: string;
+}): string {
+  const zone = filters.timeZone ? ` (${filters.timeZone})` : "";
   if (filters.date) {
-    return `\`${filters.date}\``;
+    return `\`${filters.date}\`${zone}`;
   }
   if (filters.dateFrom && filters.dateTo) {
-    return `\`${filters.dateFrom}\` to \`${filters.dateTo}\``;
+    return `\`${filters.dateFrom}\` to \`${filters.dateTo}\`${zone}`;
   }
   return "_Not provided_";
 }
@@ -529,11 +1562,6 @@ function trimToUndefined(value: string | undefined): string | undefined {
   return trimmed.length > 0 ? trimmed : undefined;
 }
 
-function getOptionalStringField(record: Record<string, unknown>, key: string): string | undefined {
-  const value = record[key];
-  return typeof value === "string" ? value : undefined;
-}
-
 function toTextContent(text: string): [{ type: "text"; text: string }] {
   return [{ type: "text", text }];
 }
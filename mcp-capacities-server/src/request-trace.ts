@@ -0,0 +1,70 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { CapacitiesEndpoint } from "./rate-limiter.js";
+import type { CacheStatus } from "./response-cache.js";
+
+export interface RequestTraceEntry {
+  endpoint: CapacitiesEndpoint;
+  attempt: number;
+  rateLimitDelayMs: number;
+}
+
+export interface CacheTraceEntry {
+  key: string;
+  status: CacheStatus;
+  ageMs: number | null;
+}
+
+export interface RequestTrace {
+  toolName: string;
+  requests: RequestTraceEntry[];
+  cache: CacheTraceEntry[];
+}
+
+export interface RateLimitDelaySummary {
+  delayed: boolean;
+  delayedRequests: number;
+  totalDelayMs: number;
+  queueDepth: number;
+}
+
+const traceStorage = new AsyncLocalStorage<RequestTrace>();
+
+export function withRequestTrace<T>(
+  toolName: string,
+  run: (trace: RequestTrace) => Promise<T>
+): Promise<T> {
+  const trace: RequestTrace = { toolName, requests: [], cache: [] };
+  return traceStorage.run(trace, () => run(trace));
+}
+
+export function getActiveRequestTrace(): RequestTrace | undefined {
+  return traceStorage.getStore();
+}
+
+export function summarizeRateLimitDelays(
+  trace: RequestTrace,
+  queueDepth: number
+): RateLimitDelaySummary {
+  const delayedEntries = trace.requests.filter((entry) => entry.rateLimitDelayMs > 0);
+  return {
+    delayed: delayedEntries.length > 0,
+    delayedRequests: delayedEntries.length,
+    totalDelayMs: delayedEntries.reduce((total, entry) => total + entry.rateLimitDelayMs, 0),
+    queueDepth
+  };
+}
+
+export function summarizeCacheUsage(trace: RequestTrace): {
+  hits: number;
+  misses: number;
+  entries: CacheTraceEntry[];
+} {
+  const hits = trace.cache.filter(
+    (entry) => entry.status === "hit" || entry.status === "coalesced"
+  ).length;
+  return {
+    hits,
+    misses: trace.cache.length - hits,
+    entries: trace.cache
+  };
+}
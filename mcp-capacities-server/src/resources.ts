@@ -0,0 +1,235 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { CapacitiesApiClient } from "./capacities-client.js";
+import type { CapacitiesConfig } from "./config.js";
+import { createValidationError, normalizeCapacitiesError } from "./errors.js";
+import { renderSpaceInfoMarkdown } from "./read-query-tools.js";
+
+const SPACES_URI = "capacities://spaces";
+const SPACE_INFO_TEMPLATE = "capacities://space/{spaceId}/info";
+const SPACE_INFO_JSON_TEMPLATE = "capacities://space/{spaceId}/info.json";
+const STRUCTURE_TEMPLATE = "capacities://space/{spaceId}/structure/{structureId}";
+
+export function registerResources(
+  server: McpServer,
+  dependencies: {
+    client: CapacitiesApiClient;
+    config: CapacitiesConfig;
+  }
+): void {
+  const { client, config } = dependencies;
+
+  const completeSpaceId = async (value: string): Promise<string[]> => {
+    const { spaces } = await client.getSpaces();
+    const prefix = value.toLowerCase();
+    return spaces
+      .filter(
+        (space) =>
+          space.id.toLowerCase().startsWith(prefix) || space.title.toLowerCase().startsWith(prefix)
+      )
+      .map((space) => space.id);
+  };
+
+  const loadSpaceInfo = async (spaceIdOrTitle: string | undefined) => {
+    const spaceId = await client.resolveSpaceId(spaceIdOrTitle);
+    const [spacesResponse, spaceInfoResponse] = await Promise.all([
+      client.getSpaces(),
+      client.getSpaceInfo(spaceId)
+    ]);
+    return {
+      spaceId,
+      spaceTitle: spacesResponse.spaces.find((space) => space.id === spaceId)?.title,
+      spacesCount: spacesResponse.spaces.length,
+      structures: spaceInfoResponse.structures
+    };
+  };
+
+  server.registerResource(
+    "spaces",
+    SPACES_URI,
+    {
+      title: "Capacities Spaces",
+      description: "All Capacities spaces accessible with the configured token.",
+      mimeType: "application/json"
+    },
+    async (uri) => {
+      try {
+        const { spaces } = await client.getSpaces();
+        return {
+          contents: [
+            toJsonContent(uri, {
+              defaultSpaceId: config.defaultSpaceId ?? null,
+              spaces
+            })
+          ]
+        };
+      } catch (error) {
+        throw toResourceError(error);
+      }
+    }
+  );
+
+  server.registerResource(
+    "space-info",
+    new ResourceTemplate(SPACE_INFO_TEMPLATE, {
+      list: async () => {
+        const { spaces } = await client.getSpaces();
+        return {
+          resources: spaces.map((space) => ({
+            uri: `capacities://space/${space.id}/info`,
+            name: `${space.title} space info`,
+            mimeType: "text/markdown"
+          }))
+        };
+      },
+      complete: { spaceId: completeSpaceId }
+    }),
+    {
+      title: "Capacities Space Info",
+      description: "Markdown structure catalogue of a Capacities space from /space-info.",
+      mimeType: "text/markdown"
+    },
+    async (uri, variables) => {
+      try {
+        const spaceInfo = await loadSpaceInfo(getTemplateVariable(variables, "spaceId"));
+        return {
+          contents: [
+            {
+              uri: uri.href,
+              mimeType: "text/markdown",
+              text: renderSpaceInfoMarkdown(spaceInfo)
+            }
+          ]
+        };
+      } catch (error) {
+        throw toResourceError(error);
+      }
+    }
+  );
+
+  server.registerResource(
+    "space-info-json",
+    new ResourceTemplate(SPACE_INFO_JSON_TEMPLATE, {
+      list: undefined,
+      complete: { spaceId: completeSpaceId }
+    }),
+    {
+      title: "Capacities Space Info (JSON)",
+      description: "Raw /space-info structures of a Capacities space as JSON.",
+      mimeType: "application/json"
+    },
+    async (uri, variables) => {
+      try {
+        const spaceInfo = await loadSpaceInfo(getTemplateVariable(variables, "spaceId"));
+        return {
+          contents: [
+            toJsonContent(uri, {
+              spaceId: spaceInfo.spaceId,
+              spaceTitle: spaceInfo.spaceTitle ?? null,
+              structures: spaceInfo.structures
+            })
+          ]
+        };
+      } catch (error) {
+        throw toResourceError(error);
+      }
+    }
+  );
+
+  server.registerResource(
+    "structure",
+    new ResourceTemplate(STRUCTURE_TEMPLATE, {
+      list: async () => {
+        if (!config.defaultSpaceId) {
+          return { resources: [] };
+        }
+        const spaceId = config.defaultSpaceId;
+        const { structures } = await client.getSpaceInfo(spaceId);
+        return {
+          resources: structures.map((structure) => ({
+            uri: `capacities://space/${spaceId}/structure/${encodeURIComponent(structure.id)}`,
+            name: structure.title,
+            mimeType: "application/json"
+          }))
+        };
+      },
+      complete: {
+        spaceId: completeSpaceId,
+        structureId: async (value, context) => {
+          const { structures } = await client.getSpaceInfo(context?.arguments?.spaceId);
+          const prefix = value.toLowerCase();
+          return structures
+            .filter(
+              (structure) =>
+                structure.id.toLowerCase().startsWith(prefix) ||
+                structure.title.toLowerCase().startsWith(prefix)
+            )
+            .map((structure) => structure.id);
+        }
+      }
+    }),
+    {
+      title: "Capacities Structure",
+      description:
+        "A single structure definition from /space-info. Listing covers the default space (CAPACITIES_SPACE_ID).",
+      mimeType: "application/json"
+    },
+    async (uri, variables) => {
+      try {
+        const spaceId = await client.resolveSpaceId(getTemplateVariable(variables, "spaceId"));
+        const structureId = getTemplateVariable(variables, "structureId");
+        const { structures } = await client.getSpaceInfo(spaceId);
+        const structure = structures.find((candidate) => candidate.id === structureId);
+        if (!structure) {
+          throw createValidationError(
+            `Structure "${structureId ?? ""}" was not found in space ${spaceId}.`
+          );
+        }
+
+        return {
+          contents: [toJsonContent(uri, { spaceId, structure })]
+        };
+      } catch (error) {
+        throw toResourceError(error);
+      }
+    }
+  );
+}
+
+function getTemplateVariable(
+  variables: Record<string, string | string[]>,
+  name: string
+): string | undefined {
+  const value = variables[name];
+  const first = Array.isArray(value) ? value[0] : value;
+  if (first === undefined) {
+    return undefined;
+  }
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(first).trim();
+  } catch (error) {
+    if (error instanceof URIError) {
+      throw createValidationError(
+        `Resource URI segment ${name} "${first}" contains a malformed percent-escape.`
+      );
+    }
+    throw error;
+  }
+  return decoded.length > 0 ? decoded : undefined;
+}
+
+function toJsonContent(uri: URL, payload: Record<string, unknown>) {
+  return {
+    uri: uri.href,
+    mimeType: "application/json",
+    text: JSON.stringify(payload, null, 2)
+  };
+}
+
+function toResourceError(error: unknown): Error {
+  const normalizedError = normalizeCapacitiesError(error);
+  return new Error(
+    `${normalizedError.code}: ${normalizedError.message} ${normalizedError.actionableMessage}`
+  );
+}
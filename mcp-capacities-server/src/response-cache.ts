@@ -0,0 +1,92 @@
+export type CacheStatus = "hit" | "miss" | "coalesced" | "refresh" | "disabled";
+
+export interface CacheLookup<T> {
+  value: T;
+  status: CacheStatus;
+  ageMs: number | null;
+}
+
+interface CacheEntry {
+  value: unknown;
+  storedAt: number;
+}
+
+export class TtlResponseCache {
+  private readonly ttlMs: number;
+  private readonly now: () => number;
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly inFlight = new Map<string, Promise<unknown>>();
+
+  constructor(ttlMs: number, now: () => number = Date.now) {
+    this.ttlMs = ttlMs;
+    this.now = now;
+  }
+
+  async getOrLoad<T>(
+    key: string,
+    load: () => Promise<T>,
+    { refresh = false }: { refresh?: boolean } = {}
+  ): Promise<CacheLookup<T>> {
+    if (!refresh) {
+      const entry = this.entries.get(key);
+      if (entry) {
+        const ageMs = this.now() - entry.storedAt;
+        if (ageMs < this.ttlMs) {
+          return { value: entry.value as T, status: "hit", ageMs };
+        }
+        this.entries.delete(key);
+      }
+
+      const pending = this.inFlight.get(key);
+      if (pending) {
+        return { value: (await pending) as T, status: "coalesced", ageMs: 0 };
+      }
+    }
+
+    const pending = load();
+    this.inFlight.set(key, pending);
+    try {
+      const value = await pending;
+      // Loads invalidated or superseded while in flight must not cache their stale value.
+      if (this.ttlMs > 0 && this.inFlight.get(key) === pending) {
+        this.entries.set(key, { value, storedAt: this.now() });
+      }
+      return { value, status: this.resolveMissStatus(refresh), ageMs: null };
+    } finally {
+      if (this.inFlight.get(key) === pending) {
+        this.inFlight.delete(key);
+      }
+    }
+  }
+
+  invalidate(keyPrefix?: string): number {
+    if (keyPrefix === undefined) {
+      const count = this.entries.size;
+      this.entries.clear();
+      this.inFlight.clear();
+      return count;
+    }
+
+    for (const key of [...this.inFlight.keys()]) {
+      if (key.startsWith(keyPrefix)) {
+        this.inFlight.delete(key);
+      }
+    }
+
+    let count = 0;
+    for (const key of [...this.entries.keys()]) {
+      if (key.startsWith(keyPrefix)) {
+        this.entries.delete(key);
+        count += 1;
+      }
+    }
+    return count;
+  }
+
+  private resolveMissStatus(refresh: boolean): CacheStatus {
+    if (refresh) {
+      return "refresh";
+    }
+    return this.ttlMs > 0 ? "miss" : "disabled";
+  }
+}
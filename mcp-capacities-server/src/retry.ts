@@ -0,0 +1,50 @@
+import type { CapacitiesError, CapacitiesErrorCode } from "./errors.js";
+
+export interface CapacitiesRetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  jitterRatio: number;
+  retryableErrorCodes: CapacitiesErrorCode[];
+  retryableStatuses: number[];
+  retryMutations: boolean;
+}
+
+export const RETRYABLE_ERROR_CODES: readonly CapacitiesErrorCode[] = ["network_error", "rate_limit"];
+
+export const DEFAULT_RETRY_POLICY: CapacitiesRetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10_000,
+  jitterRatio: 0.2,
+  retryableErrorCodes: [...RETRYABLE_ERROR_CODES],
+  retryableStatuses: [500, 502, 503, 504, 555],
+  retryMutations: false
+};
+
+export function isRetryableError(error: CapacitiesError, policy: CapacitiesRetryPolicy): boolean {
+  if (policy.retryableErrorCodes.includes(error.code)) {
+    return true;
+  }
+
+  return (
+    error.code === "api_error" &&
+    error.status !== undefined &&
+    policy.retryableStatuses.includes(error.status)
+  );
+}
+
+export function computeRetryDelayMs(
+  attempt: number,
+  error: CapacitiesError,
+  policy: CapacitiesRetryPolicy,
+  random: () => number = Math.random
+): number | undefined {
+  if (error.retryAfterMs !== undefined) {
+    return error.retryAfterMs <= policy.maxDelayMs ? error.retryAfterMs : undefined;
+  }
+
+  const exponentialDelay = Math.min(policy.baseDelayMs * 2 ** (attempt - 1), policy.maxDelayMs);
+  const jitter = exponentialDelay * policy.jitterRatio * (random() * 2 - 1);
+  return Math.max(0, Math.round(exponentialDelay + jitter));
+}
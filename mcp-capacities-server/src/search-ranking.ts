@@ -0,0 +1,232 @@
+import type { CapacitiesLookupResult } from "./capacities-client.js";
+
+export const SEARCH_RANKING_MODES = ["relevance", "upstream"] as const;
+
+export type SearchRankingMode = (typeof SEARCH_RANKING_MODES)[number];
+
+export interface MatchSpan {
+  start: number;
+  end: number;
+}
+
+export interface RankedLookupResult extends CapacitiesLookupResult {
+  score: number;
+  matchedSpans: MatchSpan[];
+}
+
+interface Token {
+  value: string;
+  start: number;
+  end: number;
+}
+
+interface FoldedText {
+  value: string;
+  // Original start and end offsets of the character each folded code unit came from.
+  starts: number[];
+  ends: number[];
+}
+
+interface TokenMatch {
+  score: number;
+  span?: MatchSpan;
+}
+
+const TOKEN_PATTERN = /[\p{L}\p{M}\p{N}]+/gu;
+const MIN_FUZZY_TOKEN_LENGTH = 4;
+const MIN_FUZZY_SIMILARITY = 0.75;
+
+const EXACT_SCORE = 1;
+const PREFIX_SCORE = 0.8;
+const SUBSTRING_SCORE = 0.7;
+const TOKEN_OVERLAP_WEIGHT = 0.65;
+const TOKEN_PREFIX_WEIGHT = 0.8;
+const TOKEN_FUZZY_WEIGHT = 0.6;
+const WHOLE_SIMILARITY_WEIGHT = 0.5;
+
+export function rankLookupResults(
+  results: CapacitiesLookupResult[],
+  query: string,
+  mode: SearchRankingMode
+): RankedLookupResult[] {
+  const ranked = results.map((result) => ({ ...result, ...scoreTitle(result.title, query) }));
+
+  if (mode === "upstream") {
+    return ranked;
+  }
+
+  return ranked.sort((left, right) => right.score - left.score);
+}
+
+export function highlightMatches(title: string, spans: MatchSpan[]): string {
+  if (!spans.length) {
+    return title;
+  }
+
+  let highlighted = "";
+  let cursor = 0;
+  for (const span of spans) {
+    highlighted += `${title.slice(cursor, span.start)}**${title.slice(span.start, span.end)}**`;
+    cursor = span.end;
+  }
+  return highlighted + title.slice(cursor);
+}
+
+function scoreTitle(title: string, query: string): { score: number; matchedSpans: MatchSpan[] } {
+  const foldedTitle = foldCase(title);
+  const normalizedTitle = foldedTitle.value;
+  const normalizedQuery = foldCase(query.trim()).value;
+  if (!normalizedQuery || !normalizedTitle) {
+    return { score: 0, matchedSpans: [] };
+  }
+
+  const substringIndex = normalizedTitle.indexOf(normalizedQuery);
+  if (substringIndex !== -1) {
+    const span = { start: substringIndex, end: substringIndex + normalizedQuery.length };
+    const coverage = normalizedQuery.length / normalizedTitle.length;
+    const score =
+      normalizedTitle === normalizedQuery
+        ? EXACT_SCORE
+        : substringIndex === 0
+          ? PREFIX_SCORE + (EXACT_SCORE - PREFIX_SCORE) * coverage * 0.5
+          : SUBSTRING_SCORE + (PREFIX_SCORE - SUBSTRING_SCORE) * coverage * 0.5;
+    return { score: roundScore(score), matchedSpans: [toOriginalSpan(foldedTitle, span)] };
+  }
+
+  const titleTokens = tokenize(normalizedTitle);
+  const queryTokens = tokenize(normalizedQuery);
+  const spans: MatchSpan[] = [];
+  let overlap = 0;
+
+  for (const queryToken of queryTokens) {
+    const best = matchToken(queryToken.value, titleTokens);
+    overlap += best.score;
+    if (best.span) {
+      spans.push(best.span);
+    }
+  }
+
+  const overlapScore = queryTokens.length
+    ? (overlap / queryTokens.length) * TOKEN_OVERLAP_WEIGHT
+    : 0;
+  const wholeScore = similarity(normalizedTitle, normalizedQuery) * WHOLE_SIMILARITY_WEIGHT;
+
+  return {
+    score: roundScore(Math.max(overlapScore, wholeScore)),
+    matchedSpans: mergeSpans(spans.map((span) => toOriginalSpan(foldedTitle, span)))
+  };
+}
+
+function matchToken(queryToken: string, titleTokens: Token[]): TokenMatch {
+  let best: TokenMatch = { score: 0 };
+
+  for (const titleToken of titleTokens) {
+    let candidate: TokenMatch = { score: 0 };
+
+    if (titleToken.value === queryToken) {
+      candidate = { score: 1, span: { start: titleToken.start, end: titleToken.end } };
+    } else if (titleToken.value.startsWith(queryToken)) {
+      candidate = {
+        score: TOKEN_PREFIX_WEIGHT,
+        span: { start: titleToken.start, end: titleToken.start + queryToken.length }
+      };
+    } else if (
+      queryToken.length >= MIN_FUZZY_TOKEN_LENGTH &&
+      titleToken.value.length >= MIN_FUZZY_TOKEN_LENGTH
+    ) {
+      const tokenSimilarity = similarity(titleToken.value, queryToken);
+      if (tokenSimilarity >= MIN_FUZZY_SIMILARITY) {
+        candidate = {
+          score: tokenSimilarity * TOKEN_FUZZY_WEIGHT,
+          span: { start: titleToken.start, end: titleToken.end }
+        };
+      }
+    }
+
+    if (candidate.score > best.score) {
+      best = candidate;
+    }
+  }
+
+  return best;
+}
+
+function tokenize(value: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of value.matchAll(TOKEN_PATTERN)) {
+    const start = match.index ?? 0;
+    tokens.push({ value: match[0], start, end: start + match[0].length });
+  }
+  return tokens;
+}
+
+// Lowercases per character so offsets in the folded text can be mapped back to the original,
+// even where lowercasing changes the length (e.g. "İ" becomes "i̇").
+function foldCase(value: string): FoldedText {
+  const folded: FoldedText = { value: "", starts: [], ends: [] };
+  let offset = 0;
+
+  for (const character of value) {
+    const lowered = character.toLowerCase();
+    const end = offset + character.length;
+    for (let index = 0; index < lowered.length; index += 1) {
+      folded.starts.push(offset);
+      folded.ends.push(end);
+    }
+    folded.value += lowered;
+    offset = end;
+  }
+
+  return folded;
+}
+
+function toOriginalSpan(folded: FoldedText, span: MatchSpan): MatchSpan {
+  return { start: folded.starts[span.start], end: folded.ends[span.end - 1] };
+}
+
+function mergeSpans(spans: MatchSpan[]): MatchSpan[] {
+  const sorted = [...spans].sort((left, right) => left.start - right.start);
+  const merged: MatchSpan[] = [];
+
+  for (const span of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && span.start <= last.end) {
+      last.end = Math.max(last.end, span.end);
+    } else {
+      merged.push({ ...span });
+    }
+  }
+
+  return merged;
+}
+
+function similarity(left: string, right: string): number {
+  const longest = Math.max(left.length, right.length);
+  return longest === 0 ? 1 : 1 - editDistance(left, right) / longest;
+}
+
+// Optimal string alignment distance: Levenshtein plus adjacent transpositions.
+function editDistance(left: string, right: string): number {
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: right.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= left.length; i += 1) {
+    const current = [i];
+    for (let j = 1; j <= right.length; j += 1) {
+      const cost = left[i - 1] === right[j - 1] ? 0 : 1;
+      let distance = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && left[i - 1] === right[j - 2] && left[i - 2] === right[j - 1]) {
+        distance = Math.min(distance, previousPrevious[j - 2] + 1);
+      }
+      current.push(distance);
+    }
+    previousPrevious = previous;
+    previous = current;
+  }
+
+  return previous[right.length];
+}
+
+function roundScore(score: number): number {
+  return Math.round(score * 1000) / 1000;
+}
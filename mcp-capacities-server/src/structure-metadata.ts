@@ -0,0 +1,151 @@
+import type { CapacitiesLookupResult, CapacitiesStructureInfo } from "./capacities-client.js";
+
+export const CAPACITIES_APP_URL = "https://app.capacities.io";
+
+const DESCRIBED_STRUCTURE_FIELDS = new Set([
+  "id",
+  "title",
+  "pluralName",
+  "icon",
+  "labelColor",
+  "color",
+  "propertyDefinitions",
+  "collections"
+]);
+
+export interface StructureSummary {
+  id: string;
+  title: string | null;
+  pluralName: string | null;
+  icon: string | null;
+  color: string | null;
+}
+
+export interface StructureProperty {
+  id: string;
+  name: string | null;
+  type: string | null;
+  dataType: string | null;
+}
+
+export interface StructureCollection {
+  id: string;
+  title: string | null;
+}
+
+export interface StructureDescription extends StructureSummary {
+  properties: StructureProperty[];
+  collections: StructureCollection[];
+  otherFields: string[];
+}
+
+export interface EntityEnrichment {
+  structure: StructureSummary;
+  link: string;
+}
+
+export function summarizeStructure(
+  structureId: string,
+  structure: CapacitiesStructureInfo | undefined
+): StructureSummary {
+  if (!structure) {
+    return { id: structureId, title: null, pluralName: null, icon: null, color: null };
+  }
+
+  return {
+    id: structure.id,
+    title: structure.title,
+    pluralName: getStringField(structure, "pluralName") ?? null,
+    icon: getIconValue(structure.icon) ?? null,
+    color: getStringField(structure, "labelColor") ?? getStringField(structure, "color") ?? null
+  };
+}
+
+export function describeStructure(structure: CapacitiesStructureInfo): StructureDescription {
+  return {
+    ...summarizeStructure(structure.id, structure),
+    properties: getRecordArray(structure.propertyDefinitions).map((property) => ({
+      id: getStringField(property, "id") ?? "",
+      name: getStringField(property, "name") ?? getStringField(property, "title") ?? null,
+      type: getStringField(property, "type") ?? null,
+      dataType: getStringField(property, "dataType") ?? null
+    })),
+    collections: getRecordArray(structure.collections).map((collection) => ({
+      id: getStringField(collection, "id") ?? "",
+      title: getStringField(collection, "title") ?? null
+    })),
+    otherFields: Object.keys(structure).filter((key) => !DESCRIBED_STRUCTURE_FIELDS.has(key))
+  };
+}
+
+export function resolveStructureIdsByType(
+  typeFilter: string,
+  structures: CapacitiesStructureInfo[]
+): Set<string> {
+  const normalizedType = typeFilter.toLowerCase();
+  const structureIds = new Set<string>();
+
+  for (const structure of structures) {
+    const titleMatches = structure.title.toLowerCase() === normalizedType;
+    const idMatches = structure.id.toLowerCase() === normalizedType;
+    const pluralName = getStringField(structure, "pluralName");
+    const pluralMatches = pluralName?.toLowerCase() === normalizedType;
+
+    if (titleMatches || idMatches || pluralMatches) {
+      structureIds.add(structure.id);
+    }
+  }
+
+  return structureIds;
+}
+
+export function enrichLookupResults<T extends CapacitiesLookupResult>(
+  results: T[],
+  spaceId: string,
+  structures: CapacitiesStructureInfo[]
+): Array<T & EntityEnrichment> {
+  const structuresById = new Map(structures.map((structure) => [structure.id, structure]));
+
+  return results.map((result) => ({
+    ...result,
+    structure: summarizeStructure(result.structureId, structuresById.get(result.structureId)),
+    link: buildEntityDeepLink(spaceId, result.id)
+  }));
+}
+
+export function buildEntityDeepLink(spaceId: string, entityId: string): string {
+  return `${CAPACITIES_APP_URL}/${encodeURIComponent(spaceId)}/${encodeURIComponent(entityId)}`;
+}
+
+export function renderStructureLabel(structure: StructureSummary): string {
+  if (!structure.title) {
+    return `\`${structure.id}\``;
+  }
+  const icon = structure.icon ? `${structure.icon} ` : "";
+  return `${icon}${structure.title} (\`${structure.id}\`)`;
+}
+
+function getIconValue(icon: unknown): string | undefined {
+  if (typeof icon === "string") {
+    return icon.trim() || undefined;
+  }
+  if (typeof icon === "object" && icon !== null) {
+    const record = icon as Record<string, unknown>;
+    return getStringField(record, "val") ?? getStringField(record, "value");
+  }
+  return undefined;
+}
+
+function getRecordArray(value: unknown): Record<string, unknown>[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value.filter(
+    (item): item is Record<string, unknown> => typeof item === "object" && item !== null
+  );
+}
+
+function getStringField(record: Record<string, unknown>, key: string): string | undefined {
+  const value = record[key];
+  return typeof value === "string" && value.trim() ? value : undefined;
+}
@@ -0,0 +1,106 @@
+import { randomUUID } from "node:crypto";
+import { createValidationError } from "./errors.js";
+import { JsonFileStore } from "./json-file-store.js";
+
+export type TaskStatus = "open" | "completed";
+
+export interface TaskRecord {
+  id: string;
+  spaceId: string;
+  title: string;
+  description: string | null;
+  dueDate: string | null;
+  status: TaskStatus;
+  createdOn: string;
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+}
+
+export interface NewTask {
+  spaceId: string;
+  title: string;
+  description?: string;
+  dueDate?: string;
+  createdOn: string;
+}
+
+export type TaskChanges = Partial<
+  Pick<TaskRecord, "title" | "description" | "dueDate" | "status">
+>;
+
+interface TaskLedgerFile {
+  version: 1;
+  tasks: TaskRecord[];
+}
+
+export class TaskLedger {
+  readonly filePath: string;
+  private readonly now: () => Date;
+  private readonly store: JsonFileStore<TaskLedgerFile>;
+
+  constructor(filePath: string, now: () => Date = () => new Date()) {
+    this.filePath = filePath;
+    this.now = now;
+    this.store = new JsonFileStore(filePath, {
+      label: "task ledger",
+      empty: () => ({ version: 1, tasks: [] }),
+      normalize: (parsed) => {
+        const tasks = (parsed as Partial<TaskLedgerFile> | null)?.tasks;
+        return { version: 1, tasks: Array.isArray(tasks) ? tasks : [] };
+      }
+    });
+  }
+
+  async list(): Promise<TaskRecord[]> {
+    const ledger = await this.store.read();
+    return ledger.tasks;
+  }
+
+  async get(taskId: string): Promise<TaskRecord | undefined> {
+    const ledger = await this.store.read();
+    return ledger.tasks.find((task) => task.id === taskId);
+  }
+
+  async create(input: NewTask): Promise<TaskRecord> {
+    return this.store.mutate((ledger) => {
+      const timestamp = this.now().toISOString();
+      const task: TaskRecord = {
+        id: randomUUID(),
+        spaceId: input.spaceId,
+        title: input.title,
+        description: input.description ?? null,
+        dueDate: input.dueDate ?? null,
+        status: "open",
+        createdOn: input.createdOn,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+        completedAt: null
+      };
+      ledger.tasks.push(task);
+      return task;
+    });
+  }
+
+  async update(taskId: string, changes: TaskChanges): Promise<TaskRecord> {
+    return this.store.mutate((ledger) => {
+      const index = ledger.tasks.findIndex((task) => task.id === taskId);
+      if (index < 0) {
+        throw createValidationError(`Unknown taskId "${taskId}". Use list_tasks to find task IDs.`);
+      }
+
+      const current = ledger.tasks[index];
+      const timestamp = this.now().toISOString();
+      const status = changes.status ?? current.status;
+      const updated: TaskRecord = {
+        ...current,
+        ...changes,
+        status,
+        updatedAt: timestamp,
+        completedAt: status === "completed" ? (current.completedAt ?? timestamp) : null
+      };
+      ledger.tasks[index] = updated;
+      return updated;
+    });
+  }
+}
@@ -0,0 +1,104 @@
+import type {
+  McpServer,
+  RegisteredTool,
+  ToolCallback
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { AnySchema, ZodRawShapeCompat } from "@modelcontextprotocol/sdk/server/zod-compat.js";
+import type { ToolAnnotations } from "@modelcontextprotocol/sdk/types.js";
+import { createConfigError } from "./errors.js";
+
+export const WRITE_TOOL_NAMES: readonly string[] = [
+  "save_weblink",
+  "save_to_daily_note",
+  "create_task",
+  "update_task",
+  "complete_task",
+  "import_weblinks",
+  "ingest_markdown_files"
+];
+
+export type ToolDisabledReason = "read_only" | "not_allowed" | "denied";
+
+export interface ToolAccessConfig {
+  readOnly: boolean;
+  allow?: string[];
+  deny: string[];
+}
+
+export interface DisabledTool {
+  name: string;
+  reason: ToolDisabledReason;
+}
+
+export interface ToolExposure {
+  exposed: string[];
+  disabled: DisabledTool[];
+}
+
+export interface ToolRegistrar {
+  registerTool<
+    OutputArgs extends ZodRawShapeCompat | AnySchema,
+    InputArgs extends undefined | ZodRawShapeCompat | AnySchema = undefined
+  >(
+    name: string,
+    config: {
+      title?: string;
+      description?: string;
+      inputSchema?: InputArgs;
+      outputSchema?: OutputArgs;
+      annotations?: ToolAnnotations;
+      _meta?: Record<string, unknown>;
+    },
+    cb: ToolCallback<InputArgs>
+  ): RegisteredTool | undefined;
+}
+
+// Without a server the registrar only records which tools would be exposed.
+export function createToolRegistrar(
+  server: McpServer | undefined,
+  access: ToolAccessConfig,
+  exposure: ToolExposure
+): ToolRegistrar {
+  return {
+    registerTool(name, config, cb) {
+      const reason = getDisabledReason(name, access);
+      if (reason) {
+        exposure.disabled.push({ name, reason });
+        return undefined;
+      }
+      exposure.exposed.push(name);
+      return server?.registerTool(name, config, cb);
+    }
+  };
+}
+
+export function assertKnownToolNames(access: ToolAccessConfig, exposure: ToolExposure): void {
+  const known = new Set([...exposure.exposed, ...exposure.disabled.map((tool) => tool.name)]);
+  const unknown = [...(access.allow ?? []), ...access.deny].filter((name) => !known.has(name));
+  if (unknown.length) {
+    throw createConfigError(
+      `Unknown tool name(s) in the tool allow/deny lists: ${unknown.join(", ")}. Available tools: ${[...known].join(", ")}.`
+    );
+  }
+}
+
+export function describeToolExposure(exposure: ToolExposure): string {
+  const exposed = exposure.exposed.length ? exposure.exposed.join(", ") : "none";
+  const disabled = exposure.disabled.length
+    ? `; disabled ${exposure.disabled.map((tool) => `${tool.name} (${tool.reason})`).join(", ")}`
+    : "";
+  return `exposing ${exposure.exposed.length} tool(s): ${exposed}${disabled}`;
+}
+
+function getDisabledReason(name: string, access: ToolAccessConfig): ToolDisabledReason | undefined {
+  if (access.deny.includes(name)) {
+    return "denied";
+  }
+  if (access.readOnly && WRITE_TOOL_NAMES.includes(name)) {
+    return "read_only";
+  }
+  if (access.allow && !access.allow.includes(name)) {
+    return "not_allowed";
+  }
+  return undefined;
+}
@@ -0,0 +1,126 @@
+import { JsonFileStore } from "./json-file-store.js";
+
+export const DUPLICATE_POLICIES = ["skip", "warn", "force"] as const;
+
+export type DuplicatePolicy = (typeof DUPLICATE_POLICIES)[number];
+
+export interface WeblinkRecord {
+  spaceId: string;
+  url: string;
+  canonicalUrl: string;
+  entityId: string | null;
+  title: string | null;
+  idempotencyKey: string | null;
+  response: Record<string, unknown>;
+  savedAt: string;
+}
+
+export type NewWeblinkRecord = Omit<WeblinkRecord, "savedAt">;
+
+interface WeblinkLedgerFile {
+  version: 1;
+  weblinks: WeblinkRecord[];
+}
+
+const TRACKING_PARAMS = new Set([
+  "fbclid",
+  "gclid",
+  "dclid",
+  "gbraid",
+  "wbraid",
+  "msclkid",
+  "yclid",
+  "igshid",
+  "mc_cid",
+  "mc_eid",
+  "_hsenc",
+  "_hsmi",
+  "mkt_tok",
+  "ref_src",
+  "ref_url",
+  "spm",
+  "vero_id"
+]);
+const TRACKING_PARAM_PREFIXES = ["utm_", "pk_", "mtm_"];
+
+export function canonicalizeWeblinkUrl(url: string): string {
+  const parsed = new URL(url);
+  const host = parsed.host.toLowerCase().replace(/^www\./, "").replace(/\.$/, "");
+
+  const params = [...parsed.searchParams.entries()]
+    .filter(([key]) => !isTrackingParam(key))
+    .sort(([left], [right]) => left.localeCompare(right));
+  const search = params.length ? `?${new URLSearchParams(params).toString()}` : "";
+  const path = parsed.pathname.replace(/\/+$/, "");
+  const hash = /^#[!/]/.test(parsed.hash) ? parsed.hash : "";
+
+  return `${parsed.protocol}//${host}${path}${search}${hash}`;
+}
+
+export class WeblinkLedger {
+  readonly filePath: string;
+  private readonly now: () => Date;
+  private readonly store: JsonFileStore<WeblinkLedgerFile>;
+  private readonly keyLocks = new Map<string, Promise<unknown>>();
+
+  constructor(filePath: string, now: () => Date = () => new Date()) {
+    this.filePath = filePath;
+    this.now = now;
+    this.store = new JsonFileStore(filePath, {
+      label: "weblink ledger",
+      empty: () => ({ version: 1, weblinks: [] }),
+      normalize: (parsed) => {
+        const weblinks = (parsed as Partial<WeblinkLedgerFile> | null)?.weblinks;
+        return { version: 1, weblinks: Array.isArray(weblinks) ? weblinks : [] };
+      }
+    });
+  }
+
+  async findByCanonicalUrl(
+    spaceId: string,
+    canonicalUrl: string
+  ): Promise<WeblinkRecord | undefined> {
+    const ledger = await this.store.read();
+    return [...ledger.weblinks]
+      .reverse()
+      .find((record) => record.spaceId === spaceId && record.canonicalUrl === canonicalUrl);
+  }
+
+  async findByIdempotencyKey(idempotencyKey: string): Promise<WeblinkRecord | undefined> {
+    const ledger = await this.store.read();
+    return ledger.weblinks.find((record) => record.idempotencyKey === idempotencyKey);
+  }
+
+  async record(input: NewWeblinkRecord): Promise<WeblinkRecord> {
+    return this.store.mutate((ledger) => {
+      const record: WeblinkRecord = { ...input, savedAt: this.now().toISOString() };
+      ledger.weblinks.push(record);
+      return record;
+    });
+  }
+
+  withIdempotencyKey<T>(idempotencyKey: string | undefined, run: () => Promise<T>): Promise<T> {
+    if (!idempotencyKey) {
+      return run();
+    }
+
+    const previous = this.keyLocks.get(idempotencyKey) ?? Promise.resolve();
+    const current = previous.then(run);
+    const settled = current.catch(() => undefined);
+    this.keyLocks.set(idempotencyKey, settled);
+    void settled.then(() => {
+      if (this.keyLocks.get(idempotencyKey) === settled) {
+        this.keyLocks.delete(idempotencyKey);
+      }
+    });
+    return current;
+  }
+}
+
+function isTrackingParam(key: string): boolean {
+  const normalized = key.toLowerCase();
+  return (
+    TRACKING_PARAMS.has(normalized) ||
+    TRACKING_PARAM_PREFIXES.some((prefix) => normalized.startsWith(prefix))
+  );
+}
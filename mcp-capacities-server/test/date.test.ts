@@ -0,0 +1,189 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { DateContext, DateExpression, DateFilterInputs } from "../src/date.js";
+import { normalizeDateInput, parseDateExpression, resolveDateFilters } from "../src/date.js";
+
+// Wednesday, 2026-10-14 at noon UTC.
+const NOW = new Date("2026-10-14T12:00:00Z");
+const UTC: DateContext = { now: NOW, timeZone: "UTC" };
+
+function range(dateFrom: string, dateTo: string): DateExpression {
+  return { kind: "range", dateFrom, dateTo };
+}
+
+function day(date: string): DateExpression {
+  return { kind: "day", date };
+}
+
+describe("parseDateExpression", () => {
+  const cases: Array<{ input: string; context?: DateContext; expected: DateExpression }> = [
+    { input: "2026-02-28", expected: day("2026-02-28") },
+    { input: "today", expected: day("2026-10-14") },
+    { input: "  Yesterday ", expected: day("2026-10-13") },
+    { input: "tomorrow", expected: day("2026-10-15") },
+    { input: "3 days ago", expected: day("2026-10-11") },
+    { input: "a week ago", expected: day("2026-10-07") },
+    { input: "in 2 weeks", expected: day("2026-10-28") },
+    { input: "in 1 month", expected: day("2026-11-14") },
+    { input: "friday", expected: day("2026-10-16") },
+    { input: "last friday", expected: day("2026-10-09") },
+    { input: "next monday", expected: day("2026-10-19") },
+    { input: "this week", expected: range("2026-10-12", "2026-10-18") },
+    {
+      input: "this week",
+      context: { ...UTC, weekStart: "sunday" },
+      expected: range("2026-10-11", "2026-10-17")
+    },
+    { input: "last week", expected: range("2026-10-05", "2026-10-11") },
+    {
+      input: "last week",
+      context: { ...UTC, weekStart: "sunday" },
+      expected: range("2026-10-04", "2026-10-10")
+    },
+    { input: "next week", expected: range("2026-10-19", "2026-10-25") },
+    { input: "last month", expected: range("2026-09-01", "2026-09-30") },
+    { input: "this quarter", expected: range("2026-10-01", "2026-12-31") },
+    { input: "next quarter", expected: range("2027-01-01", "2027-03-31") },
+    { input: "last quarter", expected: range("2026-07-01", "2026-09-30") },
+    { input: "Q3 2026", expected: range("2026-07-01", "2026-09-30") },
+    { input: "2026-Q1", expected: range("2026-01-01", "2026-03-31") },
+    { input: "2026-W41", expected: range("2026-10-05", "2026-10-11") },
+    {
+      input: "2026-W41",
+      context: { ...UTC, weekStart: "sunday" },
+      expected: range("2026-10-05", "2026-10-11")
+    },
+    { input: "2026-02", expected: range("2026-02-01", "2026-02-28") },
+    { input: "2024-02", expected: range("2024-02-01", "2024-02-29") },
+    { input: "2026", expected: range("2026-01-01", "2026-12-31") },
+    { input: "2026-10-01 to 2026-10-05", expected: range("2026-10-01", "2026-10-05") },
+    { input: "yesterday..today", expected: range("2026-10-13", "2026-10-14") },
+    { input: "last month to this week", expected: range("2026-09-01", "2026-10-18") }
+  ];
+
+  for (const { input, context, expected } of cases) {
+    it(`parses "${input}"${context?.weekStart ? ` (week starts ${context.weekStart})` : ""}`, () => {
+      assert.deepEqual(parseDateExpression(input, context ?? UTC), expected);
+    });
+  }
+
+  const timeZoneCases: Array<{ now: string; timeZone: string; expected: string }> = [
+    { now: "2026-10-14T23:30:00Z", timeZone: "UTC", expected: "2026-10-14" },
+    { now: "2026-10-14T23:30:00Z", timeZone: "Europe/Berlin", expected: "2026-10-15" },
+    { now: "2026-10-14T23:30:00Z", timeZone: "Asia/Tokyo", expected: "2026-10-15" },
+    { now: "2026-10-15T03:00:00Z", timeZone: "America/Los_Angeles", expected: "2026-10-14" },
+    { now: "2026-10-15T06:59:59Z", timeZone: "America/Los_Angeles", expected: "2026-10-14" },
+    { now: "2026-10-15T07:00:00Z", timeZone: "America/Los_Angeles", expected: "2026-10-15" }
+  ];
+
+  for (const { now, timeZone, expected } of timeZoneCases) {
+    it(`resolves "today" at ${now} in ${timeZone}`, () => {
+      assert.deepEqual(
+        parseDateExpression("today", { now: new Date(now), timeZone }),
+        day(expected)
+      );
+    });
+  }
+
+  it("resolves periods in the given time zone across a month boundary", () => {
+    const context = { now: new Date("2026-10-31T23:30:00Z"), timeZone: "Europe/Berlin" };
+    assert.deepEqual(parseDateExpression("this month", context), range("2026-11-01", "2026-11-30"));
+  });
+
+  const invalidInputs = [
+    "",
+    "someday",
+    "2026-13-01",
+    "2026-02-30",
+    "2026-W54",
+    "Q5 2026",
+    "today to yesterday",
+    "today to"
+  ];
+
+  for (const input of invalidInputs) {
+    it(`rejects "${input}"`, () => {
+      assert.throws(() => parseDateExpression(input, UTC), { code: "validation_error" });
+    });
+  }
+});
+
+describe("normalizeDateInput", () => {
+  const cases: Array<{ input: string; context?: DateContext; expected: string }> = [
+    { input: "2026-10-01", expected: "2026-10-01" },
+    { input: "tomorrow", expected: "2026-10-15" },
+    { input: "next friday", expected: "2026-10-16" },
+    {
+      input: "tomorrow",
+      context: { now: new Date("2026-10-14T22:30:00Z"), timeZone: "Europe/Berlin" },
+      expected: "2026-10-16"
+    }
+  ];
+
+  for (const { input, context, expected } of cases) {
+    it(`normalizes "${input}" to ${expected}`, () => {
+      assert.equal(normalizeDateInput(input, context ?? UTC), expected);
+    });
+  }
+
+  for (const input of ["this week", "2026-10", "Q4 2026", "yesterday to today"]) {
+    it(`rejects the range "${input}" where a single day is expected`, () => {
+      assert.throws(() => normalizeDateInput(input, UTC), {
+        code: "validation_error",
+        message: /Use a single day here/
+      });
+    });
+  }
+});
+
+describe("resolveDateFilters", () => {
+  const cases: Array<{ name: string; input: DateFilterInputs; expected: DateFilterInputs }> = [
+    {
+      name: "keeps a single-day date",
+      input: { date: "yesterday" },
+      expected: { date: "2026-10-13", dateFrom: undefined, dateTo: undefined }
+    },
+    {
+      name: "expands a range date into dateFrom/dateTo",
+      input: { date: "last month" },
+      expected: { dateFrom: "2026-09-01", dateTo: "2026-09-30" }
+    },
+    {
+      name: "uses the first day of a range dateFrom and the last day of a range dateTo",
+      input: { dateFrom: "last month", dateTo: "this week" },
+      expected: { date: undefined, dateFrom: "2026-09-01", dateTo: "2026-10-18" }
+    },
+    {
+      name: "passes absolute bounds through",
+      input: { dateFrom: "2026-01-01", dateTo: "2026-01-31" },
+      expected: { date: undefined, dateFrom: "2026-01-01", dateTo: "2026-01-31" }
+    },
+    {
+      name: "returns no filters for empty input",
+      input: {},
+      expected: { date: undefined, dateFrom: undefined, dateTo: undefined }
+    }
+  ];
+
+  for (const { name, input, expected } of cases) {
+    it(name, () => {
+      assert.deepEqual(resolveDateFilters(input, UTC), expected);
+    });
+  }
+
+  it("rejects a range date combined with dateFrom/dateTo", () => {
+    assert.throws(() => resolveDateFilters({ date: "this week", dateFrom: "today" }, UTC), {
+      code: "validation_error",
+      message: /either date or dateFrom\/dateTo/
+    });
+  });
+
+  it("resolves relative bounds in the context time zone", () => {
+    const context = { now: new Date("2026-10-14T23:30:00Z"), timeZone: "Asia/Tokyo" };
+    assert.deepEqual(resolveDateFilters({ dateFrom: "yesterday", dateTo: "today" }, context), {
+      date: undefined,
+      dateFrom: "2026-10-14",
+      dateTo: "2026-10-15"
+    });
+  });
+});
@@ -0,0 +1,281 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { CapacitiesApiClient } from "../src/capacities-client.js";
+import type { EnvSource } from "../src/config.js";
+import { loadCapacitiesConfig } from "../src/config.js";
+import { FAKE_PERSONAL_SPACE_ID, FAKE_WORK_SPACE_ID } from "../src/fake-api/fixtures.js";
+import type { FakeFault, RunningFakeCapacitiesApi } from "../src/fake-api/server.js";
+import { parseFakeFaults, startFakeCapacitiesApi } from "../src/fake-api/server.js";
+
+const TOKEN = "fake-token";
+
+describe("fake Capacities API end to end", () => {
+  let api: RunningFakeCapacitiesApi;
+
+  const createClient = (env: EnvSource = {}) =>
+    new CapacitiesApiClient(
+      loadCapacitiesConfig({
+        CAPACITIES_API_TOKEN: TOKEN,
+        CAPACITIES_API_BASE_URL: api.url,
+        CAPACITIES_SPACE_ID: FAKE_PERSONAL_SPACE_ID,
+        CAPACITIES_RETRY_MAX_ATTEMPTS: "1",
+        ...env
+      }),
+      fetch,
+      { sleep: async () => undefined }
+    );
+
+  before(async () => {
+    api = await startFakeCapacitiesApi({ port: 0, token: TOKEN });
+  });
+
+  after(async () => {
+    await api.close();
+  });
+
+  beforeEach(() => {
+    api.reset();
+  });
+
+  it("serves the seeded fixtures", async () => {
+    const client = createClient();
+
+    const { spaces } = await client.getSpaces();
+    assert.deepEqual(
+      spaces.map((space) => space.title),
+      ["Personal", "Work"]
+    );
+    assert.equal(await client.resolveSpaceId("work"), FAKE_WORK_SPACE_ID);
+
+    const { structures } = await client.getSpaceInfo();
+    assert.ok(structures.some((structure) => structure.title === "Book"));
+
+    const { results } = await client.lookup("project");
+    assert.deepEqual(
+      results.map((result) => result.title),
+      ["Project Ideas"]
+    );
+  });
+
+  it("stores weblinks and daily-note appends", async () => {
+    const client = createClient();
+
+    const saved = await client.saveWeblink({
+      spaceId: FAKE_PERSONAL_SPACE_ID,
+      url: "https://example.com/article",
+      titleOverwrite: "Example Article",
+      tags: ["reading"]
+    });
+    assert.equal(saved.persisted, true);
+    assert.ok(saved.persisted && typeof saved.response.id === "string");
+
+    const { results } = await client.lookup("example article");
+    assert.deepEqual(
+      results.map((result) => result.structureId),
+      ["RootWeblink"]
+    );
+
+    await client.saveToDailyNote({
+      spaceId: FAKE_PERSONAL_SPACE_ID,
+      mdText: "Hello",
+      noTimeStamp: true
+    });
+    assert.deepEqual(
+      api.data().dailyNotes.map(({ mdText, noTimeStamp }) => ({ mdText, noTimeStamp })),
+      [{ mdText: "Hello", noTimeStamp: true }]
+    );
+  });
+
+  it("drops cached lookups of a space after a write to it", async () => {
+    const client = createClient();
+    const lookupCount = () => api.requests().filter((request) => request.path === "/lookup").length;
+
+    await client.lookup("example", undefined, { cache: true });
+    await client.lookup("example", undefined, { cache: true });
+    assert.equal(lookupCount(), 1);
+
+    await client.saveWeblink({
+      spaceId: FAKE_PERSONAL_SPACE_ID,
+      url: "https://example.com/fresh",
+      titleOverwrite: "Example Fresh"
+    });
+    const { results } = await client.lookup("example", undefined, { cache: true });
+    assert.equal(lookupCount(), 2);
+    assert.deepEqual(
+      results.map((result) => result.title),
+      ["Example Fresh"]
+    );
+  });
+
+  const faultCases: Array<{
+    name: string;
+    fault: FakeFault;
+    expected: { code: string; status?: number; message: RegExp; retryAfterMs?: number };
+  }> = [
+    {
+      name: "401",
+      fault: { kind: "status", status: 401 },
+      expected: { code: "api_error", status: 401, message: /status 401\. Unauthorized\./ }
+    },
+    {
+      name: "404",
+      fault: { kind: "status", status: 404 },
+      expected: { code: "api_error", status: 404, message: /status 404\. Not found\./ }
+    },
+    {
+      name: "429 without rate limit headers",
+      fault: { kind: "status", status: 429 },
+      expected: { code: "rate_limit", status: 429, message: /Retry after a short delay\./ }
+    },
+    {
+      name: "429 with Retry-After",
+      fault: { kind: "status", status: 429, headers: { "Retry-After": "3" } },
+      expected: {
+        code: "rate_limit",
+        status: 429,
+        message: /Retry after 3 seconds\./,
+        retryAfterMs: 3000
+      }
+    },
+    {
+      name: "429 with RateLimit-Reset",
+      fault: { kind: "status", status: 429, headers: { "RateLimit-Reset": "7" } },
+      expected: {
+        code: "rate_limit",
+        status: 429,
+        message: /Retry when rate limit resets \(7\)\./,
+        retryAfterMs: 7000
+      }
+    },
+    {
+      name: "500",
+      fault: { kind: "status", status: 500 },
+      expected: { code: "api_error", status: 500, message: /status 500\. Server error\./ }
+    },
+    {
+      name: "503",
+      fault: { kind: "status", status: 503 },
+      expected: { code: "api_error", status: 503, message: /status 503\. Server error\./ }
+    },
+    {
+      name: "555",
+      fault: { kind: "status", status: 555 },
+      expected: { code: "api_error", status: 555, message: /status 555\. Server error\./ }
+    },
+    {
+      name: "other 4xx with a custom body",
+      fault: { kind: "status", status: 422, body: "bad payload" },
+      expected: { code: "api_error", status: 422, message: /status 422\. Response: bad payload$/ }
+    },
+    {
+      name: "empty body",
+      fault: { kind: "empty" },
+      expected: { code: "api_error", status: 200, message: /empty response body for POST \/lookup/ }
+    },
+    {
+      name: "invalid JSON body",
+      fault: { kind: "invalid-json" },
+      expected: { code: "api_error", status: 200, message: /invalid JSON for POST \/lookup/ }
+    },
+    {
+      name: "dropped connection",
+      fault: { kind: "disconnect" },
+      expected: { code: "network_error", message: /Network request to Capacities API failed/ }
+    }
+  ];
+
+  for (const { name, fault, expected } of faultCases) {
+    it(`maps an injected ${name} fault`, async () => {
+      api.injectFault({ ...fault, endpoint: "/lookup" });
+      const error = await createClient()
+        .lookup("project")
+        .then(
+          () => assert.fail("Expected the lookup to fail."),
+          (caught: unknown) => caught
+        );
+
+      assert.equal((error as { code: string }).code, expected.code);
+      assert.equal((error as { status?: number }).status, expected.status);
+      assert.match((error as Error).message, expected.message);
+      if (expected.retryAfterMs !== undefined) {
+        assert.equal((error as { retryAfterMs?: number }).retryAfterMs, expected.retryAfterMs);
+      }
+    });
+  }
+
+  it("rejects a wrong bearer token with a real 401", async () => {
+    await assert.rejects(createClient({ CAPACITIES_API_TOKEN: "wrong" }).getSpaces(), {
+      code: "api_error",
+      status: 401
+    });
+  });
+
+  it("recovers when a retryable fault clears before maxAttempts", async () => {
+    api.injectFault({ kind: "status", status: 503, endpoint: "/lookup", times: 2 });
+
+    const { results } = await createClient({ CAPACITIES_RETRY_MAX_ATTEMPTS: "3" }).lookup(
+      "meeting",
+      FAKE_WORK_SPACE_ID
+    );
+    assert.equal(results.length, 1);
+    assert.deepEqual(
+      api.requests().map((request) => [request.path, request.fault, request.status]),
+      [
+        ["/lookup", "status", 503],
+        ["/lookup", "status", 503],
+        ["/lookup", null, 200]
+      ]
+    );
+  });
+
+  it("accepts faults through the admin route", async () => {
+    const response = await fetch(`${api.url}/__fake/faults`, {
+      method: "POST",
+      body: JSON.stringify({ kind: "status", status: 555, endpoint: "/spaces" })
+    });
+    assert.equal(response.status, 200);
+
+    await assert.rejects(createClient().getSpaces(), { status: 555 });
+    assert.equal((await createClient().getSpaces()).spaces.length, 2);
+  });
+
+  it("rejects invalid faults on the admin route", async () => {
+    const response = await fetch(`${api.url}/__fake/faults`, {
+      method: "POST",
+      body: JSON.stringify({ kind: "explode" })
+    });
+    assert.equal(response.status, 400);
+    assert.match(await response.text(), /Unknown fault kind/);
+  });
+});
+
+describe("parseFakeFaults", () => {
+  const cases: Array<{ spec: string; expected: FakeFault[] }> = [
+    { spec: "", expected: [] },
+    { spec: "503", expected: [{ kind: "status", status: 503 }] },
+    {
+      spec: "/save-weblink=429x2",
+      expected: [{ kind: "status", endpoint: "/save-weblink", status: 429, times: 2 }]
+    },
+    {
+      spec: "/lookup=empty, invalid-json,/spaces=disconnect",
+      expected: [
+        { kind: "empty", endpoint: "/lookup" },
+        { kind: "invalid-json" },
+        { kind: "disconnect", endpoint: "/spaces" }
+      ]
+    }
+  ];
+
+  for (const { spec, expected } of cases) {
+    it(`parses "${spec}"`, () => {
+      assert.deepEqual(parseFakeFaults(spec), expected);
+    });
+  }
+
+  for (const spec of ["teapot", "/unknown=500", "/lookup=500x0", "42"]) {
+    it(`rejects "${spec}"`, () => {
+      assert.throws(() => parseFakeFaults(spec), { code: "validation_error" });
+    });
+  }
+});
@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { JsonFileStore } from "../src/json-file-store.js";
+
+interface Counter {
+  count: number;
+}
+
+describe("JsonFileStore", () => {
+  let dir: string;
+  const createStore = (name: string) =>
+    new JsonFileStore<Counter>(join(dir, name), {
+      label: "counter file",
+      empty: () => ({ count: 0 }),
+      normalize: (parsed) => ({ count: (parsed as Partial<Counter>).count ?? 0 })
+    });
+
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), "json-file-store-"));
+  });
+
+  after(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("reads the empty value when the file does not exist", async () => {
+    assert.deepEqual(await createStore("missing.json").read(), { count: 0 });
+  });
+
+  it("queues concurrent mutations so none is lost", async () => {
+    const store = createStore("counter.json");
+    const results = await Promise.all(
+      Array.from({ length: 10 }, () =>
+        store.mutate((value) => {
+          value.count += 1;
+          return value.count;
+        })
+      )
+    );
+
+    assert.deepEqual(results, [1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    assert.deepEqual(JSON.parse(await readFile(store.filePath, "utf8")), { count: 10 });
+  });
+
+  it("writes and removes the file", async () => {
+    const store = createStore("written.json");
+    await store.write({ count: 3 });
+    assert.deepEqual(await store.read(), { count: 3 });
+
+    await store.remove();
+    assert.deepEqual(await store.read(), { count: 0 });
+  });
+
+  it("reports invalid JSON as a storage error naming the file", async () => {
+    const store = createStore("broken.json");
+    await writeFile(store.filePath, "{", "utf8");
+
+    await assert.rejects(store.read(), {
+      code: "storage_error",
+      message: `Counter file ${store.filePath} does not contain valid JSON.`
+    });
+  });
+
+  it("keeps the queue usable after a failed mutation", async () => {
+    const store = createStore("recovers.json");
+    await assert.rejects(
+      store.mutate(() => {
+        throw new Error("boom");
+      }),
+      /boom/
+    );
+    assert.equal(
+      await store.mutate((value) => {
+        value.count += 1;
+        return value.count;
+      }),
+      1
+    );
+  });
+});
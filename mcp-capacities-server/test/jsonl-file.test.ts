@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import { appendFile, mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { JsonlFile, readJsonlFile } from "../src/jsonl-file.js";
+
+describe("JsonlFile", () => {
+  let dir: string;
+
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), "jsonl-file-"));
+  });
+
+  after(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("appends records in call order and reads them back", async () => {
+    const file = new JsonlFile<{ index: number }>(join(dir, "nested", "log.jsonl"), "test log");
+    await Promise.all(Array.from({ length: 5 }, (_, index) => file.append({ index })));
+
+    assert.deepEqual(
+      (await file.read()).map((record) => record.index),
+      [0, 1, 2, 3, 4]
+    );
+  });
+
+  it("skips a partially written last line", async () => {
+    const file = new JsonlFile<{ index: number }>(join(dir, "partial.jsonl"), "test log");
+    await file.append({ index: 1 });
+    await appendFile(file.filePath, '{"index":', "utf8");
+
+    assert.deepEqual(await file.read(), [{ index: 1 }]);
+  });
+
+  it("runs beforeAppend with the line size and reports its failure as a storage error", async () => {
+    const file = new JsonlFile<{ index: number }>(join(dir, "hooked.jsonl"), "test log");
+    const sizes: number[] = [];
+    await file.append(
+      { index: 7 },
+      { beforeAppend: async (lineBytes) => void sizes.push(lineBytes) }
+    );
+    assert.deepEqual(sizes, [Buffer.byteLength('{"index":7}\n')]);
+
+    await assert.rejects(
+      file.append(
+        { index: 8 },
+        {
+          beforeAppend: async () => {
+            throw new Error("disk full");
+          }
+        }
+      ),
+      { code: "storage_error", message: /Failed to append to test log .*disk full/ }
+    );
+    assert.deepEqual(await file.read(), [{ index: 7 }]);
+  });
+
+  it("reads a missing file as empty", async () => {
+    assert.deepEqual(await readJsonlFile(join(dir, "missing.jsonl"), "test log"), []);
+  });
+});
@@ -0,0 +1,70 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { TtlResponseCache } from "../src/response-cache.js";
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((done) => {
+    resolve = done;
+  });
+  return { promise, resolve };
+}
+
+describe("TtlResponseCache", () => {
+  it("serves hits within the TTL and coalesces concurrent loads", async () => {
+    let now = 0;
+    let loads = 0;
+    const cache = new TtlResponseCache(1000, () => now);
+    const load = async () => {
+      loads += 1;
+      return "value";
+    };
+
+    const [first, second] = await Promise.all([
+      cache.getOrLoad("key", load),
+      cache.getOrLoad("key", load)
+    ]);
+    assert.equal(first.status, "miss");
+    assert.equal(second.status, "coalesced");
+    assert.equal((await cache.getOrLoad("key", load)).status, "hit");
+
+    now = 1000;
+    assert.equal((await cache.getOrLoad("key", load)).status, "miss");
+    assert.equal(loads, 2);
+  });
+
+  const invalidations: Array<{ name: string; prefix?: string }> = [
+    { name: "a matching prefix", prefix: "lookup:space-1:" },
+    { name: "a full invalidation" }
+  ];
+
+  for (const { name, prefix } of invalidations) {
+    it(`does not cache a load that was in flight during ${name}`, async () => {
+      const cache = new TtlResponseCache(60_000);
+      const staleLoad = deferred<string>();
+
+      const staleRead = cache.getOrLoad("lookup:space-1:term", () => staleLoad.promise);
+      cache.invalidate(prefix);
+      const freshRead = cache.getOrLoad("lookup:space-1:term", async () => "after write");
+      staleLoad.resolve("before write");
+
+      assert.equal((await staleRead).value, "before write");
+      assert.deepEqual(await freshRead, { value: "after write", status: "miss", ageMs: null });
+      const cached = await cache.getOrLoad("lookup:space-1:term", async () => "reloaded");
+      assert.equal(cached.status, "hit");
+      assert.equal(cached.value, "after write");
+    });
+  }
+
+  it("keeps in-flight loads for keys outside the invalidated prefix", async () => {
+    const cache = new TtlResponseCache(60_000);
+    const load = deferred<string>();
+
+    const read = cache.getOrLoad("lookup:space-2:term", () => load.promise);
+    cache.invalidate("lookup:space-1:");
+    load.resolve("value");
+    await read;
+
+    assert.equal((await cache.getOrLoad("lookup:space-2:term", async () => "other")).status, "hit");
+  });
+});
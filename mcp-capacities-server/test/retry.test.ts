@@ -0,0 +1,171 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { CapacitiesApiClient } from "../src/capacities-client.js";
+import type { EnvSource } from "../src/config.js";
+import { loadCapacitiesConfig } from "../src/config.js";
+import { CapacitiesError } from "../src/errors.js";
+import { computeRetryDelayMs, DEFAULT_RETRY_POLICY } from "../src/retry.js";
+
+const SPACE_ID = "11111111-1111-4111-8111-111111111111";
+const LOOKUP_BODY = { results: [{ id: "e1", structureId: "RootPage", title: "Hello" }] };
+
+type FakeReply = { status: number; body?: unknown; headers?: Record<string, string> } | Error;
+
+function createTestClient(replies: FakeReply[], env: EnvSource = {}) {
+  const calls: string[] = [];
+  const sleeps: number[] = [];
+  const fetchImpl = async (input: string | URL | Request): Promise<Response> => {
+    calls.push(new URL(input instanceof Request ? input.url : input).pathname);
+    const reply = replies.shift();
+    if (!reply) {
+      throw new Error("Unexpected request.");
+    }
+    if (reply instanceof Error) {
+      throw reply;
+    }
+    return new Response(reply.body === undefined ? "" : JSON.stringify(reply.body), {
+      status: reply.status,
+      headers: reply.headers
+    });
+  };
+
+  const config = loadCapacitiesConfig({
+    CAPACITIES_API_TOKEN: "test-token",
+    CAPACITIES_SPACE_ID: SPACE_ID,
+    ...env
+  });
+  const client = new CapacitiesApiClient(config, fetchImpl as typeof fetch, {
+    sleep: async (ms) => {
+      sleeps.push(ms);
+    },
+    random: () => 0.5
+  });
+  return { client, calls, sleeps };
+}
+
+describe("CapacitiesApiClient retries", () => {
+  it("waits for Retry-After on 429 and retries", async () => {
+    const { client, calls, sleeps } = createTestClient([
+      { status: 429, body: { error: "slow down" }, headers: { "Retry-After": "2" } },
+      { status: 200, body: LOOKUP_BODY }
+    ]);
+
+    assert.deepEqual(await client.lookup("hello"), LOOKUP_BODY);
+    assert.deepEqual(calls, ["/lookup", "/lookup"]);
+    assert.deepEqual(sleeps, [2000]);
+  });
+
+  it("backs off exponentially on retryable 5xx statuses", async () => {
+    const { client, calls, sleeps } = createTestClient([
+      { status: 503 },
+      { status: 555 },
+      { status: 200, body: LOOKUP_BODY }
+    ]);
+
+    assert.deepEqual(await client.lookup("hello"), LOOKUP_BODY);
+    assert.equal(calls.length, 3);
+    assert.deepEqual(sleeps, [500, 1000]);
+  });
+
+  it("gives up after maxAttempts and throws the last error", async () => {
+    const { client, calls, sleeps } = createTestClient([{ status: 502 }, { status: 502 }], {
+      CAPACITIES_RETRY_MAX_ATTEMPTS: "2"
+    });
+
+    await assert.rejects(client.lookup("hello"), { code: "api_error", status: 502 });
+    assert.equal(calls.length, 2);
+    assert.deepEqual(sleeps, [500]);
+  });
+
+  it("retries network errors", async () => {
+    const { client, calls, sleeps } = createTestClient([
+      new TypeError("fetch failed"),
+      { status: 200, body: LOOKUP_BODY }
+    ]);
+
+    assert.deepEqual(await client.lookup("hello"), LOOKUP_BODY);
+    assert.equal(calls.length, 2);
+    assert.deepEqual(sleeps, [500]);
+  });
+
+  it("does not retry error codes removed via CAPACITIES_RETRY_ERROR_CODES", async () => {
+    const { client, calls } = createTestClient(
+      [{ status: 429, headers: { "Retry-After": "1" } }],
+      { CAPACITIES_RETRY_ERROR_CODES: "network_error" }
+    );
+
+    await assert.rejects(client.lookup("hello"), { code: "rate_limit" });
+    assert.equal(calls.length, 1);
+  });
+
+  it("rejects unknown CAPACITIES_RETRY_ERROR_CODES entries", () => {
+    assert.throws(() => createTestClient([], { CAPACITIES_RETRY_ERROR_CODES: "api_error" }), {
+      code: "validation_error"
+    });
+  });
+
+  it("does not retry statuses outside the retryable list", async () => {
+    const { client, calls, sleeps } = createTestClient([{ status: 404 }]);
+
+    await assert.rejects(client.lookup("hello"), { code: "api_error", status: 404 });
+    assert.equal(calls.length, 1);
+    assert.deepEqual(sleeps, []);
+  });
+
+  it("does not retry mutations by default", async () => {
+    const { client, calls, sleeps } = createTestClient([{ status: 503 }]);
+
+    await assert.rejects(client.saveWeblink({ spaceId: SPACE_ID, url: "https://example.com" }), {
+      code: "api_error",
+      status: 503
+    });
+    assert.deepEqual(calls, ["/save-weblink"]);
+    assert.deepEqual(sleeps, []);
+  });
+
+  it("retries mutations when CAPACITIES_RETRY_MUTATIONS is enabled", async () => {
+    const { client, calls } = createTestClient(
+      [new TypeError("fetch failed"), { status: 200, body: { id: "w1" } }],
+      { CAPACITIES_RETRY_MUTATIONS: "true" }
+    );
+
+    const result = await client.saveWeblink({ spaceId: SPACE_ID, url: "https://example.com" });
+    assert.deepEqual(result, { persisted: true, response: { id: "w1" } });
+    assert.equal(calls.length, 2);
+  });
+
+  it("does not wait for a Retry-After above maxDelayMs", async () => {
+    const { client, calls, sleeps } = createTestClient(
+      [{ status: 429, headers: { "Retry-After": "30" } }],
+      { CAPACITIES_RETRY_MAX_DELAY_MS: "10000" }
+    );
+
+    await assert.rejects(client.lookup("hello"), { code: "rate_limit", retryAfterMs: 30_000 });
+    assert.equal(calls.length, 1);
+    assert.deepEqual(sleeps, []);
+  });
+});
+
+describe("computeRetryDelayMs", () => {
+  const serverError = new CapacitiesError("Server error.", {
+    code: "api_error",
+    status: 503,
+    actionableMessage: "Retry."
+  });
+  const cases: Array<{ name: string; attempt: number; random: number; expected: number }> = [
+    { name: "uses the base delay on the first retry", attempt: 1, random: 0.5, expected: 500 },
+    { name: "doubles the delay per attempt", attempt: 3, random: 0.5, expected: 2000 },
+    { name: "caps the delay at maxDelayMs", attempt: 10, random: 0.5, expected: 10_000 },
+    { name: "applies negative jitter", attempt: 1, random: 0, expected: 400 },
+    { name: "applies positive jitter", attempt: 1, random: 1, expected: 600 }
+  ];
+
+  for (const { name, attempt, random, expected } of cases) {
+    it(name, () => {
+      assert.equal(
+        computeRetryDelayMs(attempt, serverError, DEFAULT_RETRY_POLICY, () => random),
+        expected
+      );
+    });
+  }
+});
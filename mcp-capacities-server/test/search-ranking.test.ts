@@ -0,0 +1,75 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { SearchRankingMode } from "../src/search-ranking.js";
+import { highlightMatches, rankLookupResults } from "../src/search-ranking.js";
+
+function rankTitle(title: string, query: string) {
+  const [result] = rankLookupResults(
+    [{ id: "e1", structureId: "RootPage", title }],
+    query,
+    "relevance"
+  );
+  return result;
+}
+
+describe("rankLookupResults", () => {
+  const highlightCases: Array<{ title: string; query: string; expected: string }> = [
+    { title: "Project Ideas", query: "project ideas", expected: "**Project Ideas**" },
+    { title: "Project Ideas", query: "ideas", expected: "Project **Ideas**" },
+    {
+      title: "Weekly Meeting Notes",
+      query: "notes meet",
+      expected: "Weekly **Meet**ing **Notes**"
+    },
+    { title: "İstanbul Trip", query: "trip", expected: "İstanbul **Trip**" },
+    { title: "İİİ Notes", query: "notes", expected: "İİİ **Notes**" },
+    { title: "Trip to İzmir", query: "izmir", expected: "Trip to **İzmir**" },
+    {
+      title: "İİ Weekly Meeting Notes",
+      query: "notes meet",
+      expected: "İİ Weekly **Meet**ing **Notes**"
+    },
+    { title: "Straße ẞ Guide", query: "guide", expected: "Straße ẞ **Guide**" }
+  ];
+
+  for (const { title, query, expected } of highlightCases) {
+    it(`highlights "${query}" in "${title}"`, () => {
+      const result = rankTitle(title, query);
+      assert.equal(highlightMatches(result.title, result.matchedSpans), expected);
+    });
+  }
+
+  it("scores exact matches above prefixes, substrings and fuzzy matches", () => {
+    const scores = ["Roadmap", "Roadmap 2027", "Product Roadmap", "Raodmap"].map(
+      (title) => rankTitle(title, "roadmap").score
+    );
+    assert.deepEqual(
+      [...scores].sort((left, right) => right - left),
+      scores
+    );
+    assert.equal(scores[0], 1);
+  });
+
+  const modeCases: Array<{ mode: SearchRankingMode; expected: string[] }> = [
+    { mode: "relevance", expected: ["Roadmap", "Old roadmap draft", "Unrelated"] },
+    { mode: "upstream", expected: ["Unrelated", "Old roadmap draft", "Roadmap"] }
+  ];
+
+  for (const { mode, expected } of modeCases) {
+    it(`orders results by ${mode}`, () => {
+      const ranked = rankLookupResults(
+        ["Unrelated", "Old roadmap draft", "Roadmap"].map((title, index) => ({
+          id: `e${index}`,
+          structureId: "RootPage",
+          title
+        })),
+        "roadmap",
+        mode
+      );
+      assert.deepEqual(
+        ranked.map((result) => result.title),
+        expected
+      );
+    });
+  }
+});